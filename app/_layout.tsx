@@ -9,14 +9,22 @@ import "react-native-reanimated";
 
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { BalanceProvider } from "@/contexts/BalanceContext";
 import { VideoProvider } from "@/contexts/VideoContext";
+import { GenerationQueueProvider } from "@/contexts/GenerationQueueContext";
+import { DraftsProvider } from "@/contexts/DraftsContext";
+import { ComposerProvider } from "@/contexts/ComposerContext";
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
 
   return (
     <AuthProvider>
+      <BalanceProvider>
       <VideoProvider>
+        <GenerationQueueProvider>
+        <DraftsProvider>
+        <ComposerProvider>
         <ThemeProvider value={colorScheme === "dark" ? DarkTheme : DefaultTheme}>
         <Stack screenOptions={{ headerShown: false }}>
           <Stack.Screen name="index" />
@@ -89,6 +97,30 @@ export default function RootLayout() {
               fullScreenGestureEnabled: true,
             }}
           />
+          <Stack.Screen
+            name="create"
+            options={{
+              headerBackButtonMenuEnabled: false,
+              gestureEnabled: true,
+              fullScreenGestureEnabled: true,
+            }}
+          />
+          <Stack.Screen
+            name="templates"
+            options={{
+              headerBackButtonMenuEnabled: false,
+              gestureEnabled: true,
+              fullScreenGestureEnabled: true,
+            }}
+          />
+          <Stack.Screen
+            name="drafts"
+            options={{
+              headerBackButtonMenuEnabled: false,
+              gestureEnabled: true,
+              fullScreenGestureEnabled: true,
+            }}
+          />
           <Stack.Screen
             name="video/[id]"
             options={{
@@ -100,7 +132,11 @@ export default function RootLayout() {
         </Stack>
         <StatusBar style="light" />
       </ThemeProvider>
+        </ComposerProvider>
+        </DraftsProvider>
+        </GenerationQueueProvider>
       </VideoProvider>
+      </BalanceProvider>
     </AuthProvider>
   );
 }
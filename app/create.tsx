@@ -0,0 +1,497 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import { LinearGradient } from "expo-linear-gradient";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+
+import { Colors } from "@/constants/colors";
+import { PRICE_PER_VIDEO } from "@/constants/constants";
+import { useAuthContext } from "@/contexts/AuthContext";
+import {
+  COMPOSER_STEPS,
+  ComposerStep,
+  useComposer,
+  validateComposerStep,
+} from "@/contexts/ComposerContext";
+import { useGenerationQueue } from "@/contexts/GenerationQueueContext";
+import { useDrafts } from "@/contexts/DraftsContext";
+import { useBalance } from "@/hooks/useBalance";
+import { useGenerationOptionsCatalog } from "@/hooks/useGenerationOptionsCatalog";
+import { useMusicList } from "@/hooks/useMusicList";
+import { resolveGenerationOptions } from "@/utils/generationOptions";
+import { submitVideoRequest } from "@/utils/videoSubmission";
+import { PromptStep } from "@/components/composer/PromptStep";
+import { VoiceStep } from "@/components/composer/VoiceStep";
+import { OptionsStep } from "@/components/composer/OptionsStep";
+import { ScriptStep } from "@/components/composer/ScriptStep";
+import { ReviewStep } from "@/components/composer/ReviewStep";
+
+const STEP_TITLES: Record<ComposerStep, string> = {
+  prompt: "Prompt",
+  voice: "Voice",
+  options: "Options",
+  script: "Script",
+  review: "Review",
+};
+
+export default function CreateVideoScreen() {
+  const router = useRouter();
+  const { user } = useAuthContext();
+  const { balance } = useBalance();
+  const composer = useComposer();
+  const { shouldQueue, enqueue, totalCost: queuedCost } = useGenerationQueue();
+  const { drafts, hydrated: draftsHydrated, deleteDraft } = useDrafts();
+  const {
+    catalog: optionsCatalog,
+    loading: loadingCatalog,
+    error: catalogError,
+    refetch: refetchCatalog,
+  } = useGenerationOptionsCatalog();
+  const {
+    tracks: musicTracks,
+    loading: loadingMusic,
+    error: musicError,
+  } = useMusicList();
+
+  // Once loaded, the music_tracks table is the source of truth for music.
+  // A failed or empty load keeps the catalog's tracks, so a track picked
+  // from them still validates.
+  const hasMusicTracks = !loadingMusic && !musicError && musicTracks.length > 0;
+  const catalog = useMemo(
+    () =>
+      optionsCatalog &&
+      (hasMusicTracks
+        ? {
+            ...optionsCatalog,
+            music_tracks: musicTracks.map((track) => ({
+              id: track.id,
+              label: track.title,
+            })),
+          }
+        : optionsCatalog),
+    [optionsCatalog, musicTracks, hasMusicTracks]
+  );
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isMountedRef = useRef(true);
+  const draftRestoredRef = useRef(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const {
+    step,
+    prompt,
+    voice,
+    sourceVideoId,
+    script,
+    scriptApproved,
+    draftId,
+    setStep,
+    restoreDraft,
+    reset,
+  } = composer;
+  const stepIndex = COMPOSER_STEPS.indexOf(step);
+  const isLastStep = stepIndex === COMPOSER_STEPS.length - 1;
+
+  // Cleanup on unmount
+  useEffect(() => {
+    isMountedRef.current = true;
+
+    return () => {
+      isMountedRef.current = false;
+
+      // Abort any ongoing fetch requests
+      if (abortControllerRef.current) {
+        abortControllerRef.current.abort();
+        abortControllerRef.current = null;
+      }
+    };
+  }, []);
+
+  // Pick up the latest draft when opening an empty composer
+  useEffect(() => {
+    if (draftRestoredRef.current || !draftsHydrated) {
+      return;
+    }
+    draftRestoredRef.current = true;
+
+    if (!prompt.trim() && !draftId && drafts.length > 0) {
+      restoreDraft(drafts[0]);
+    }
+  }, [draftsHydrated, drafts, prompt, draftId, restoreDraft]);
+
+  // Clear a stale validation message when the step changes
+  useEffect(() => {
+    setError(null);
+  }, [step]);
+
+  const handleBack = () => {
+    if (stepIndex === 0) {
+      // Leave the screen; the composer keeps its state for next time
+      router.back();
+      return;
+    }
+    setStep(COMPOSER_STEPS[stepIndex - 1]);
+  };
+
+  // The composition was sent, so its draft is no longer needed
+  const finishComposition = () => {
+    if (draftId) {
+      deleteDraft(draftId);
+    }
+    reset();
+  };
+
+  const handleNext = () => {
+    const validationError = validateComposerStep(step, composer, catalog);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setStep(COMPOSER_STEPS[stepIndex + 1]);
+  };
+
+  const handleSubmit = async () => {
+    const validationError = validateComposerStep("review", composer, catalog);
+    if (validationError || !catalog) {
+      setError(validationError);
+      return;
+    }
+
+    if (!user) {
+      setError("User not authenticated");
+      return;
+    }
+
+    const promptToSubmit = prompt.trim();
+    const options = resolveGenerationOptions(composer.options, catalog);
+    // Only an approved script is sent; otherwise the server writes one
+    const approvedScript = script && scriptApproved ? script : null;
+
+    // Another video is generating - wait in the local queue instead
+    if (shouldQueue) {
+      enqueue({
+        prompt: promptToSubmit,
+        voice,
+        source_video_id: sourceVideoId,
+        options,
+        script: approvedScript,
+      });
+      finishComposition();
+      router.back();
+      Alert.alert(
+        "Added to Queue",
+        "Your video will start automatically once the current one finishes."
+      );
+      return;
+    }
+
+    if (balance === null || balance < PRICE_PER_VIDEO) {
+      setError(`You need at least $${PRICE_PER_VIDEO} to generate a video.`);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      // Create abort controller for cleanup
+      abortControllerRef.current = new AbortController();
+
+      const result = await submitVideoRequest(
+        user.id,
+        {
+          prompt: promptToSubmit,
+          ...(voice ? { voice } : {}),
+          ...(sourceVideoId ? { source_video_id: sourceVideoId } : {}),
+          options,
+          ...(approvedScript ? { script: approvedScript } : {}),
+        },
+        { signal: abortControllerRef.current.signal }
+      );
+
+      finishComposition();
+
+      if (result.duplicate && result.videoId) {
+        // The earlier attempt already went through - show that video
+        Alert.alert(
+          "Already Submitted",
+          "This video was already created from your previous attempt."
+        );
+        router.replace({
+          pathname: "/video/[id]",
+          params: { id: result.videoId },
+        });
+        return;
+      }
+
+      router.back();
+      Alert.alert(
+        "Success",
+        "Video generation started! Your video will appear in your library when ready."
+      );
+    } catch (err) {
+      if (isMountedRef.current) {
+        setError(
+          err instanceof Error ? err.message : "Failed to generate video"
+        );
+      }
+    } finally {
+      if (isMountedRef.current) {
+        setSubmitting(false);
+      }
+    }
+  };
+
+  const renderStep = () => {
+    switch (step) {
+      case "prompt":
+        return <PromptStep />;
+      case "voice":
+        return <VoiceStep />;
+      case "options":
+        return (
+          <OptionsStep
+            catalog={catalog}
+            loading={loadingCatalog}
+            error={catalogError}
+            onRetry={refetchCatalog}
+            musicTracks={musicTracks}
+            loadingMusic={loadingMusic}
+          />
+        );
+      case "script":
+        return <ScriptStep catalog={catalog} />;
+      case "review":
+        return (
+          <ReviewStep
+            catalog={catalog}
+            balance={balance}
+            queuedCost={shouldQueue ? queuedCost : 0}
+            willQueue={shouldQueue}
+          />
+        );
+    }
+  };
+
+  return (
+    <LinearGradient
+      colors={Colors.background.gradient as [string, string, string]}
+      style={styles.container}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.headerButton}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="close" size={26} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Create video</Text>
+        <TouchableOpacity
+          onPress={() => router.push("/drafts")}
+          style={styles.headerButton}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="documents-outline" size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+
+      {/* Step indicator */}
+      <View style={styles.stepper}>
+        {COMPOSER_STEPS.map((item, index) => (
+          <View key={item} style={styles.stepperItem}>
+            <View
+              style={[
+                styles.stepperBar,
+                index <= stepIndex && styles.stepperBarActive,
+              ]}
+            />
+            <Text
+              style={[
+                styles.stepperLabel,
+                index === stepIndex && styles.stepperLabelActive,
+              ]}
+            >
+              {STEP_TITLES[item]}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.body}
+      >
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {renderStep()}
+
+          {error && (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          )}
+        </ScrollView>
+
+        {/* Footer */}
+        <View style={styles.footer}>
+          <TouchableOpacity
+            onPress={handleBack}
+            disabled={submitting}
+            style={[styles.footerButton, styles.secondaryButton]}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.secondaryButtonText}>
+              {stepIndex === 0 ? "Cancel" : "Back"}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={isLastStep ? handleSubmit : handleNext}
+            disabled={submitting}
+            style={[
+              styles.footerButton,
+              styles.primaryButton,
+              submitting && styles.buttonDisabled,
+            ]}
+            activeOpacity={0.8}
+          >
+            {submitting ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.primaryButtonText}>
+                {!isLastStep
+                  ? "Next"
+                  : shouldQueue
+                  ? "Add to queue"
+                  : `Generate · $${PRICE_PER_VIDEO}`}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 60,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  headerButton: {
+    width: 44,
+    height: 44,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  headerTitle: {
+    color: "#FFFFFF",
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  stepper: {
+    flexDirection: "row",
+    gap: 8,
+    paddingHorizontal: 16,
+    marginBottom: 20,
+  },
+  stepperItem: {
+    flex: 1,
+  },
+  stepperBar: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: "rgba(255, 255, 255, 0.15)",
+    marginBottom: 6,
+  },
+  stepperBarActive: {
+    backgroundColor: Colors.cyan[500],
+  },
+  stepperLabel: {
+    color: Colors.text.gray[500],
+    fontSize: 12,
+    fontWeight: "500",
+  },
+  stepperLabelActive: {
+    color: "#FFFFFF",
+  },
+  body: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: 16,
+    paddingBottom: 24,
+  },
+  errorContainer: {
+    marginTop: 16,
+    padding: 12,
+    backgroundColor: "rgba(239, 68, 68, 0.2)",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "rgba(239, 68, 68, 0.4)",
+  },
+  errorText: {
+    color: "#FCA5A5",
+    fontSize: 14,
+  },
+  footer: {
+    flexDirection: "row",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: Platform.OS === "ios" ? 34 : 16,
+    borderTopWidth: 1,
+    borderTopColor: "#2a2a2a",
+    backgroundColor: "#1a1a1a",
+  },
+  footerButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  secondaryButton: {
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.2)",
+  },
+  primaryButton: {
+    backgroundColor: Colors.cyan[500],
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  secondaryButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  primaryButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+});
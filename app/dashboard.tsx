@@ -1,73 +1,78 @@
-import React, { useState, useMemo, useEffect, useRef } from "react";
+import React, {
+  useState,
+  useRef,
+  useCallback,
+  useEffect,
+  memo,
+} from "react";
 import {
   View,
   Text,
   StyleSheet,
-  FlatList,
+  SectionList,
   ActivityIndicator,
+  ViewToken,
   TextInput,
   TouchableOpacity,
   Alert,
   Modal,
-  KeyboardAvoidingView,
-  Platform,
-  Keyboard,
-  TouchableWithoutFeedback,
-  ScrollView,
 } from "react-native";
 import { LinearGradient } from "expo-linear-gradient";
 import { BlurView } from "expo-blur";
 import { Ionicons } from "@expo/vector-icons";
-import { AudioModule, setAudioModeAsync } from "expo-audio";
-import type { AudioPlayer } from "expo-audio";
 
 import { useBalance } from "../hooks/useBalance";
 import { useVideos } from "../hooks/useVideos";
-import { useVoicesList } from "../hooks/useVoicesList";
+import {
+  useVideo,
+  useVideoIds,
+  useVideoSelector,
+} from "../contexts/VideoContext";
+import { shallowEqualArrays } from "@/lib/videoStore";
+import { useCancelVideo } from "../hooks/useCancelVideo";
+import { useNetworkStatus } from "../hooks/useNetworkStatus";
+import { useSignedUrl } from "../hooks/useSignedUrl";
+import { useNow } from "../hooks/useNow";
+import { useQueueStatus } from "../hooks/useQueueStatus";
+import { isRetryFree, useRetryVideo } from "../hooks/useRetryVideo";
+import { useVideoSearch } from "../hooks/useVideoSearch";
+import { useRecentSearches } from "../hooks/useRecentSearches";
+import { HighlightedText } from "@/components/HighlightedText";
+import { VideoFilterBar } from "@/components/VideoFilterBar";
 import { BottomMenu } from "@/components/BottomMenu";
+import { GenerationQueueList } from "@/components/GenerationQueueList";
 import { useRouter } from "expo-router";
 import { Colors } from "@/constants/colors";
-import {
-  VideoRecord,
-  SIGNED_URL_EXPIRES,
-  PRICE_PER_VIDEO,
-} from "@/constants/constants";
+import { VideoRecord, PRICE_PER_VIDEO } from "@/constants/constants";
+import type { QueueStatusEntry } from "@/lib/edgeFunctions";
 import { downloadVideo } from "@/utils/videoDownload";
-import { useAuthContext } from "../contexts/AuthContext";
-import { supabase } from "../lib/supabase";
-import Constants from "expo-constants";
-
-// Constants
-const REQUEST_TIMEOUT_MS = 30000; // 30 seconds
+import { useGenerationQueue } from "../contexts/GenerationQueueContext";
+import { useComposer } from "../contexts/ComposerContext";
+import { getVideoStatusInfo } from "@/utils/videoStatus";
+import {
+  VideoSection,
+  countActiveFilters,
+  groupVideos,
+} from "@/utils/videoFilters";
+import {
+  VIDEO_STAGE_INFO,
+  clampProgress,
+  formatElapsed,
+  formatEstimatedStart,
+  isVideoStage,
+} from "@/utils/videoProgress";
 
-function getStatusColor(status: string): string {
-  switch (status) {
-    case "completed":
-      return "#06b6d4";
-    case "processing":
-      return "#06b6d4"; // cyan
-    case "queued":
-      return "#fbbf24"; // yellow
-    case "failed":
-      return "#f87171"; // red
-    default:
-      return Colors.text.gray[400];
-  }
-}
+const VIEWABILITY_CONFIG = { itemVisiblePercentThreshold: 20 };
 
-function getStatusLabel(status: string): string {
-  switch (status) {
-    case "completed":
-      return "Completed";
-    case "processing":
-      return "Processing";
-    case "queued":
-      return "Queued";
-    case "failed":
-      return "Failed";
-    default:
-      return status.charAt(0).toUpperCase() + status.slice(1);
-  }
+function sectionsEqual(a: VideoSection[], b: VideoSection[]) {
+  return (
+    a.length === b.length &&
+    a.every(
+      (section, i) =>
+        section.title === b[i].title &&
+        shallowEqualArrays(section.data, b[i].data)
+    )
+  );
 }
 
 type VideoItemProps = {
@@ -75,7 +80,19 @@ type VideoItemProps = {
   onDownloadStart: () => void;
   onDownloadEnd: () => void;
   onDelete: (videoId: string) => void;
-  onRefreshSignedUrl: (videoId: string) => Promise<string>;
+  onRemix: (video: VideoRecord) => void;
+  onToggleFavorite: (videoId: string) => void;
+  onCancel: (video: VideoRecord) => void;
+  cancelling: boolean;
+  /** Null when the video was already retried */
+  onRetry: ((video: VideoRecord) => void) | null;
+  retrying: boolean;
+  /** Whether the row is on screen; its URL is only signed while visible */
+  visible: boolean;
+  /** Search text to highlight in the prompt */
+  highlight?: string;
+  /** Place in the render queue while the video is queued */
+  queueStatus?: QueueStatusEntry;
 };
 
 function VideoItem({
@@ -83,12 +100,37 @@ function VideoItem({
   onDownloadStart,
   onDownloadEnd,
   onDelete,
-  onRefreshSignedUrl,
+  onRemix,
+  onToggleFavorite,
+  onCancel,
+  cancelling,
+  onRetry,
+  retrying,
+  visible,
+  highlight,
+  queueStatus,
 }: VideoItemProps) {
   const router = useRouter();
-  const statusColor = getStatusColor(video.status);
-  const statusLabel = getStatusLabel(video.status);
+  const { ensureUrl } = useSignedUrl(video.id, { enabled: visible });
+  const statusInfo = getVideoStatusInfo(video.status);
   const [downloading, setDownloading] = useState(false);
+  // Ticks only while the video is still in the pipeline
+  const now = useNow(statusInfo.active);
+  const progress = clampProgress(video.progress);
+  const stageLabel =
+    video.status === "processing" && isVideoStage(video.stage)
+      ? VIDEO_STAGE_INFO[video.stage].label
+      : null;
+  // Unknown positions fall back to the plain "Queued" label
+  const queueLabel =
+    video.status === "queued" && queueStatus?.position
+      ? [
+          `#${queueStatus.position}`,
+          formatEstimatedStart(queueStatus.estimated_start_at, now),
+        ]
+          .filter(Boolean)
+          .join(" · ")
+      : null;
 
   const handleDownload = async () => {
     if (downloading) return;
@@ -96,25 +138,13 @@ function VideoItem({
     try {
       setDownloading(true);
 
-      // Check if URL needs refresh (within 15 minutes of expiring)
-      let urlToUse = video.signed_url;
-      const REFRESH_THRESHOLD = 15 * 60 * 1000; // 15 minutes in milliseconds
-
-      if (video.signed_url_created_at) {
-        const ageMs = Date.now() - video.signed_url_created_at;
-        const expiresAtMs = SIGNED_URL_EXPIRES * 1000;
-        const timeUntilExpiry = expiresAtMs - ageMs;
-
-        if (timeUntilExpiry < REFRESH_THRESHOLD) {
-          try {
-            urlToUse = await onRefreshSignedUrl(video.id);
-          } catch (refreshError) {
-            // Continue with existing URL if refresh fails
-            if (!urlToUse) {
-              throw new Error("Failed to refresh video URL");
-            }
-          }
-        }
+      // Re-signs only if the current URL is missing or about to expire
+      let urlToUse: string | null = null;
+      try {
+        urlToUse = await ensureUrl();
+      } catch {
+        // Fall back to a URL that has not expired yet
+        urlToUse = video.signed_url;
       }
 
       if (!urlToUse) {
@@ -141,11 +171,10 @@ function VideoItem({
     }
   };
 
-  const canDownload = video.status === "completed" && video.signed_url;
-  const canDelete = video.status === "completed" || video.status === "failed";
+  const canDownload = statusInfo.canDownload && !!video.bucket_path;
+  const { canDelete, canCancel } = statusInfo;
   const canViewError = video.status === "failed";
-  const canViewStatus =
-    video.status === "queued" || video.status === "processing";
+  const canViewStatus = statusInfo.active;
 
   const handleDelete = () => {
     onDelete(video.id);
@@ -175,15 +204,29 @@ function VideoItem({
   return (
     <View style={styles.videoItem}>
       <View style={styles.videoContent}>
-        <Text style={styles.videoPrompt} numberOfLines={2}>
+        <HighlightedText
+          style={styles.videoPrompt}
+          numberOfLines={2}
+          highlight={highlight}
+        >
           {video.prompt}
-        </Text>
+        </HighlightedText>
         <View style={styles.statusContainer}>
+          {video.source_video_id && (
+            <View style={styles.remixBadge}>
+              <Ionicons
+                name="repeat-outline"
+                size={12}
+                color={Colors.text.gray[300]}
+              />
+              <Text style={styles.remixBadgeText}>Remix</Text>
+            </View>
+          )}
           <View
             style={[
               styles.statusDot,
               {
-                backgroundColor: statusColor,
+                backgroundColor: statusInfo.color,
               },
             ]}
           />
@@ -191,15 +234,38 @@ function VideoItem({
             style={[
               styles.statusText,
               {
-                color: statusColor,
+                color: statusInfo.color,
               },
             ]}
+            numberOfLines={1}
           >
-            {statusLabel}
+            {statusInfo.label}
+            {stageLabel
+              ? ` · ${stageLabel}${
+                  progress !== null ? ` ${Math.round(progress)}%` : ""
+                }`
+              : ""}
+            {queueLabel ? ` · ${queueLabel}` : ""}
           </Text>
+          {statusInfo.active && (
+            <Text style={styles.elapsedText}>
+              {formatElapsed(now - Date.parse(video.created_at))}
+            </Text>
+          )}
         </View>
       </View>
       <View style={styles.actionContainer}>
+        <TouchableOpacity
+          onPress={() => onToggleFavorite(video.id)}
+          style={styles.iconButton}
+          activeOpacity={0.7}
+        >
+          <Ionicons
+            name={video.is_favorite ? "star" : "star-outline"}
+            size={20}
+            color={video.is_favorite ? "#fbbf24" : Colors.text.gray[400]}
+          />
+        </TouchableOpacity>
         {canDownload && (
           <TouchableOpacity
             onPress={handleDownload}
@@ -218,6 +284,45 @@ function VideoItem({
             )}
           </TouchableOpacity>
         )}
+        <TouchableOpacity
+          onPress={() => onRemix(video)}
+          style={styles.iconButton}
+          activeOpacity={0.7}
+        >
+          <Ionicons
+            name="repeat-outline"
+            size={20}
+            color={Colors.text.gray[300]}
+          />
+        </TouchableOpacity>
+        {onRetry && statusInfo.canRetry && (
+          <TouchableOpacity
+            onPress={() => onRetry(video)}
+            disabled={retrying}
+            style={styles.iconButton}
+            activeOpacity={0.7}
+          >
+            {retrying ? (
+              <ActivityIndicator size="small" color={Colors.cyan[500]} />
+            ) : (
+              <Ionicons name="refresh" size={20} color={Colors.cyan[500]} />
+            )}
+          </TouchableOpacity>
+        )}
+        {canCancel && (
+          <TouchableOpacity
+            onPress={() => onCancel(video)}
+            disabled={cancelling}
+            style={styles.iconButton}
+            activeOpacity={0.7}
+          >
+            {cancelling ? (
+              <ActivityIndicator size="small" color="#f87171" />
+            ) : (
+              <Ionicons name="close-circle-outline" size={20} color="#f87171" />
+            )}
+          </TouchableOpacity>
+        )}
         {canDelete && (
           <TouchableOpacity
             onPress={handleDelete}
@@ -244,79 +349,126 @@ function VideoItem({
     </View>
   );
 }
+/**
+ * Subscribes to a single video, so a realtime change re-renders only
+ * the row it belongs to.
+ */
+const VideoRow = memo(function VideoRow({
+  videoId,
+  ...props
+}: Omit<VideoItemProps, "video"> & { videoId: string }) {
+  const video = useVideo(videoId);
+  return video ? <VideoItem video={video} {...props} /> : null;
+});
+
 export default function DashboardScreen() {
   const router = useRouter();
   const { balance } = useBalance();
-  const { user, session } = useAuthContext();
   const {
-    videos,
     loading,
     loadingMore,
     hasMore,
     loadMore,
     deleteVideo,
-    refreshVideoSignedUrl,
+    toggleFavorite,
+    filters,
+    sort,
+    isStale,
+    lastSyncedAt,
+    connectionState,
+    refetch,
   } = useVideos();
-  const { voices: VOICES, loading: loadingVoices } = useVoicesList();
+  const { isOffline } = useNetworkStatus();
+  const { queue } = useGenerationQueue();
+  const { prefill } = useComposer();
+  const { cancellingId, confirmCancel } = useCancelVideo();
+  const { retryingId, retryVideo, isRetried } = useRetryVideo(balance);
+  const [visibleIds, setVisibleIds] = useState<Set<string>>(new Set());
+
+  // SectionList requires this callback to keep the same identity. Section
+  // headers are reported too, so only string items are video ids.
+  const onViewableItemsChanged = useRef(
+    ({ viewableItems }: { viewableItems: ViewToken[] }) => {
+      setVisibleIds(
+        new Set(
+          viewableItems
+            .map((token) => token.item)
+            .filter((item): item is string => typeof item === "string")
+        )
+      );
+    }
+  );
   const [searchQuery, setSearchQuery] = useState("");
+  const [searchFocused, setSearchFocused] = useState(false);
+  const search = useVideoSearch(searchQuery);
+  const { recentSearches, addSearch, removeSearch, clearSearches } =
+    useRecentSearches();
+  const isSearching = searchQuery.trim().length > 0;
   const [showDownloadModal, setShowDownloadModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [videoToDelete, setVideoToDelete] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
-  const [showCreateInput, setShowCreateInput] = useState(false);
-  const [prompt, setPrompt] = useState("");
-  const [creatingVideo, setCreatingVideo] = useState(false);
-  const [showVoiceModal, setShowVoiceModal] = useState(false);
-  const [selectedVoice, setSelectedVoice] = useState<string | null>(null);
-  const [playingVoiceId, setPlayingVoiceId] = useState<string | null>(null);
-  const audioPlayersRef = useRef<{ [key: string]: AudioPlayer }>({});
-  const isMountedRef = useRef(true);
-  const abortControllerRef = useRef<AbortController | null>(null);
-
-  // Hide input field when keyboard is dismissed
-  useEffect(() => {
-    if (!showCreateInput) return;
 
-    const keyboardDidHideListener = Keyboard.addListener(
-      Platform.OS === "ios" ? "keyboardWillHide" : "keyboardDidHide",
-      () => {
-        // Don't clear prompt if voice modal is showing (user is selecting voice)
-        if (!showVoiceModal) {
-          setPrompt("");
-          setShowCreateInput(false);
-        }
-      }
-    );
+  const handleRetry = useCallback(
+    (video: VideoRecord) => {
+      Alert.alert(
+        "Retry Video?",
+        isRetryFree(video)
+          ? "This retry is free because the failed attempt was refunded."
+          : `This retry will be charged $${PRICE_PER_VIDEO.toFixed(2)} again.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Retry", onPress: () => retryVideo(video) },
+        ]
+      );
+    },
+    [retryVideo]
+  );
 
-    return () => {
-      keyboardDidHideListener.remove();
-    };
-  }, [showCreateInput, prompt, showVoiceModal]);
+  // Search runs on the server over the whole library, not just the
+  // pages loaded so far
+  const libraryIds = useVideoIds();
+  const listIds = isSearching ? search.ids : libraryIds;
+  const listLoading = isSearching ? search.loading : loading;
+  const listLoadingMore = isSearching ? search.loadingMore : loadingMore;
+  const hasActiveFilters = countActiveFilters(filters) > 0;
+
+  const queuedIds = useVideoSelector(
+    (state) => listIds.filter((id) => state.byId[id]?.status === "queued"),
+    shallowEqualArrays
+  );
+  const queueStatuses = useQueueStatus(queuedIds);
+
+  // Search results are always newest first
+  const sections = useVideoSelector(
+    (state) =>
+      groupVideos(
+        listIds.map((id) => state.byId[id]).filter(Boolean),
+        isSearching ? "newest" : sort
+      ),
+    sectionsEqual
+  );
 
-  // Filter videos based on search query
-  const filteredVideos = useMemo(() => {
-    if (!searchQuery.trim()) {
-      return videos;
+  // Remember searches that found something
+  useEffect(() => {
+    if (search.resultsQuery && search.ids.length > 0) {
+      addSearch(search.resultsQuery);
     }
-    const query = searchQuery.toLowerCase().trim();
-    return videos.filter((video) => video.prompt.toLowerCase().includes(query));
-  }, [videos, searchQuery]);
+  }, [search.resultsQuery, search.ids.length, addSearch]);
 
-  // Check if there are any queued or processing videos
-  const hasQueuedOrProcessingVideos = useMemo(() => {
-    return videos.some(
-      (v) => v.status === "queued" || v.status === "processing"
-    );
-  }, [videos]);
+  const handleDownloadStart = useCallback(() => setShowDownloadModal(true), []);
+  const handleDownloadEnd = useCallback(() => setShowDownloadModal(false), []);
 
   const handleEndReached = () => {
-    if (hasMore && !loadingMore && !loading && !searchQuery.trim()) {
+    if (isSearching) {
+      search.loadMore();
+    } else if (hasMore && !loadingMore && !loading) {
       loadMore();
     }
   };
 
   const renderFooter = () => {
-    if (!loadingMore) return null;
+    if (!listLoadingMore) return null;
     return (
       <View style={styles.footerLoader}>
         <ActivityIndicator size="small" color={Colors.cyan[500]} />
@@ -324,10 +476,24 @@ export default function DashboardScreen() {
     );
   };
 
-  const handleDeleteClick = (videoId: string) => {
+  const handleToggleFavorite = useCallback(
+    (videoId: string) => {
+      toggleFavorite(videoId).catch((error) => {
+        Alert.alert(
+          "Update Failed",
+          error instanceof Error
+            ? error.message
+            : "Failed to update favorite. Please try again."
+        );
+      });
+    },
+    [toggleFavorite]
+  );
+
+  const handleDeleteClick = useCallback((videoId: string) => {
     setVideoToDelete(videoId);
     setShowDeleteModal(true);
-  };
+  }, []);
 
   const handleDeleteConfirm = async () => {
     if (!videoToDelete) return;
@@ -354,369 +520,25 @@ export default function DashboardScreen() {
     setVideoToDelete(null);
   };
 
-  // Handle voice preview playback
-  const handlePlayVoice = (voiceId: string, url: string) => {
-    try {
-      // If clicking the same voice, toggle play/pause
-      if (playingVoiceId === voiceId) {
-        const player = audioPlayersRef.current[voiceId];
-        if (player) {
-          if (player.playing) {
-            player.pause();
-            setPlayingVoiceId(null);
-          } else {
-            player.play();
-          }
-        }
-        return;
-      }
-
-      // Stop any currently playing audio
-      for (const [id, player] of Object.entries(audioPlayersRef.current)) {
-        if (player && player.playing) {
-          try {
-            player.pause();
-            player.seekTo(0);
-          } catch (err) {}
-        }
-      }
-
-      // Load and play new voice
-      let player = audioPlayersRef.current[voiceId];
-      let shouldAutoPlay = true;
-
-      if (!player) {
-        // AudioSource can be a string (URI) or an object with uri property
-        const audioSource = { uri: url };
-        player = new (AudioModule as any).AudioPlayer(audioSource, 500, false);
-        audioPlayersRef.current[voiceId] = player;
-
-        // Handle playback finish and errors
-        player.addListener("playbackStatusUpdate", (status: any) => {
-          if (status.isLoaded) {
-            // Auto-play when loaded if we haven't started yet
-            if (shouldAutoPlay && !status.playing && !status.didJustFinish) {
-              player.volume = 1.0;
-              player.muted = false;
-              player.play();
-              setPlayingVoiceId(voiceId);
-              shouldAutoPlay = false;
-            }
-
-            if (status.didJustFinish) {
-              setPlayingVoiceId(null);
-            }
-          }
-        });
-      } else {
-        // Replace source and reset position
-        player.replace({ uri: url });
-        player.seekTo(0);
-
-        // Set up listener for auto-play on load
-        const statusListener = (status: any) => {
-          if (status.isLoaded && shouldAutoPlay && !status.playing) {
-            player.volume = 1.0;
-            player.muted = false;
-            player.play();
-            setPlayingVoiceId(voiceId);
-            shouldAutoPlay = false;
-            player.removeListener("playbackStatusUpdate", statusListener);
-          }
-        };
-        player.addListener("playbackStatusUpdate", statusListener);
-      }
-
-      // Try to play immediately if already loaded
-      if (player.isLoaded) {
-        player.volume = 1.0;
-        player.muted = false;
-        player.play();
-        setPlayingVoiceId(voiceId);
-        shouldAutoPlay = false;
-      }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      Alert.alert("Error", `Failed to play voice preview: ${errorMessage}`);
-      setPlayingVoiceId(null);
-    }
-  };
-
-  // Configure audio mode on mount
-  useEffect(() => {
-    const configureAudio = async () => {
-      try {
-        await setAudioModeAsync({
-          playsInSilentMode: true,
-          interruptionMode: "duckOthers",
-          shouldPlayInBackground: false,
-        });
-      } catch (error) {}
-    };
-    configureAudio();
-  }, []);
-
-  // Cleanup on unmount
-  useEffect(() => {
-    isMountedRef.current = true;
-
-    return () => {
-      isMountedRef.current = false;
-
-      // Abort any ongoing fetch requests
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-        abortControllerRef.current = null;
-      }
-
-      // Cleanup all audio players
-      const currentPlayers = audioPlayersRef.current;
-      Object.values(currentPlayers).forEach((player) => {
-        if (player) {
-          try {
-            player.pause();
-            player.seekTo(0);
-            player.remove();
-          } catch (error) {
-            // Silently handle cleanup errors
-          }
-        }
+  // Open the composer prefilled with an existing video's prompt and voice
+  const handleRemix = useCallback(
+    (video: VideoRecord) => {
+      prefill({
+        prompt: video.prompt,
+        voice: video.voice,
+        sourceVideoId: video.id,
+        options: video.options ?? {},
       });
-      audioPlayersRef.current = {};
-    };
-  }, []);
-
-  // Cleanup audio players when voice changes (stop previous voice)
-  useEffect(() => {
-    // Stop any previously playing voices when a new one starts
-    const previousPlayers = Object.entries(audioPlayersRef.current);
-    previousPlayers.forEach(([voiceId, player]) => {
-      if (voiceId !== playingVoiceId && player && player.playing) {
-        try {
-          player.pause();
-          player.seekTo(0);
-        } catch {
-          // Silently handle cleanup errors
-        }
-      }
-    });
-  }, [playingVoiceId]);
-
-  const handleCreateVideo = () => {
-    if (!prompt.trim()) {
-      return;
-    }
-
-    // Show voice selection modal instead of submitting immediately
-    // Set modal state first to prevent keyboard listener from clearing prompt
-    setShowVoiceModal(true);
-    // Dismiss keyboard after modal state is set
-    setTimeout(() => {
-      Keyboard.dismiss();
-    }, 50);
-  };
-
-  const handleConfirmVoiceAndSubmit = async () => {
-    if (!selectedVoice) {
-      Alert.alert("Error", "Please select a voice");
-      return;
-    }
-
-    // Validate prompt exists - store it in a variable to prevent it from being cleared
-    const promptToSubmit = prompt.trim();
-
-    if (!promptToSubmit) {
-      Alert.alert("Error", "Video prompt is required");
-      setShowVoiceModal(false);
-      return;
-    }
-
-    // Close modal first
-    setShowVoiceModal(false);
-
-    // Check if user has any queued videos
-    const hasQueuedVideos = videos.some(
-      (v) => v.status === "queued" || v.status === "processing"
-    );
-    if (hasQueuedVideos) {
-      Alert.alert(
-        "No concurrent executions",
-        "You have a video queued or processing. Please wait for it to finish before creating a new video."
-      );
-      return;
-    }
-
-    if (balance === null || balance < PRICE_PER_VIDEO) {
-      Alert.alert(
-        "Insufficient Balance",
-        `You need at least $${PRICE_PER_VIDEO} to generate a video.`
-      );
-      return;
-    }
-
-    if (!user || !session) {
-      Alert.alert("Error", "User not authenticated");
-      return;
-    }
-
-    setCreatingVideo(true);
-
-    try {
-      // Use current session, only refresh if needed
-      let sessionToUse = session;
-
-      if (!session || !session.access_token) {
-        Alert.alert("Error", "User not authenticated");
-        setCreatingVideo(false);
-        return;
-      }
-
-      // Check if session is close to expiring (within 5 minutes)
-      const expiresAt = session.expires_at ? session.expires_at * 1000 : null;
-      const shouldRefresh = expiresAt && expiresAt - Date.now() < 5 * 60 * 1000;
-
-      if (shouldRefresh) {
-        // Only attempt refresh if session is close to expiring
-        try {
-          const {
-            data: { session: refreshedSession },
-            error: refreshError,
-          } = await supabase.auth.refreshSession();
-
-          if (!refreshError && refreshedSession) {
-            sessionToUse = refreshedSession;
-          }
-          // If refresh fails, silently fall back to current session
-        } catch {
-          // Silently fall back to current session on network errors
-          // The current session should still be valid
-        }
-      }
-
-      // Get Supabase URL from environment variables first
-      const supabaseUrl =
-        process.env.EXPO_PUBLIC_SUPABASE_URL ||
-        Constants.expoConfig?.extra?.supabaseUrl ||
-        "";
-
-      if (!supabaseUrl) {
-        throw new Error("Supabase URL not configured");
-      }
-
-      // Call edge function to create video
-      // Ensure URL is properly formatted
-      let baseUrl = supabaseUrl.trim();
-      if (!baseUrl.startsWith("http://") && !baseUrl.startsWith("https://")) {
-        baseUrl = `https://${baseUrl}`;
-      }
-      const edgeFunctionUrl = `${baseUrl}/functions/v1/create-video`;
-
-      // Create abort controller for cleanup
-      abortControllerRef.current = new AbortController();
-
-      let createVideoResponse;
-      try {
-        // Create a timeout promise
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(
-            () => reject(new Error("Request timeout")),
-            REQUEST_TIMEOUT_MS
-          );
-        });
-
-        // Race between fetch and timeout
-        createVideoResponse = (await Promise.race([
-          fetch(edgeFunctionUrl, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${sessionToUse.access_token}`,
-            },
-            body: JSON.stringify({
-              prompt: promptToSubmit,
-              refresh_token: sessionToUse.refresh_token,
-              voice: selectedVoice,
-            }),
-            signal: abortControllerRef.current.signal,
-          }).then((response) => {
-            return response;
-          }),
-          timeoutPromise,
-        ])) as Response;
-      } catch (fetchError) {
-        // Check if it's a network error
-        if (
-          fetchError instanceof TypeError &&
-          fetchError.message.includes("Network request failed")
-        ) {
-          throw new Error(
-            "Network request failed. Please check your internet connection and try again."
-          );
-        }
-        if (
-          fetchError instanceof Error &&
-          fetchError.message === "Request timeout"
-        ) {
-          throw new Error(
-            "Request timed out. The server may be slow or unreachable. Please try again."
-          );
-        }
-        throw fetchError;
-      }
-
-      if (!createVideoResponse.ok) {
-        const errorData = await createVideoResponse.json().catch(() => ({
-          error: "Unknown error occurred",
-        }));
-        throw new Error(errorData.error || "Failed to create video");
-      }
-
-      const result = await createVideoResponse.json();
-
-      if (!result.ok) {
-        throw new Error(result.error || "Failed to create video");
-      }
-
-      // Success
-      Alert.alert(
-        "Success",
-        "Video generation started! Your video will appear below when ready."
-      );
-      setPrompt("");
-      setShowCreateInput(false);
-      setSelectedVoice(null);
-    } catch (error) {
-      if (isMountedRef.current) {
-        Alert.alert(
-          "Error",
-          error instanceof Error ? error.message : "Failed to generate video"
-        );
-      }
-    } finally {
-      if (isMountedRef.current) {
-        setCreatingVideo(false);
-      }
-    }
-  };
-
-  const handleDismissInput = () => {
-    Keyboard.dismiss();
-    if (!prompt.trim()) {
-      setShowCreateInput(false);
-    }
-  };
+      router.push("/create");
+    },
+    [prefill, router]
+  );
 
   return (
     <LinearGradient
       colors={Colors.background.gradient as [string, string, string]}
       style={styles.container}
     >
-      {showCreateInput && (
-        <TouchableWithoutFeedback onPress={handleDismissInput}>
-          <View style={styles.backdrop} />
-        </TouchableWithoutFeedback>
-      )}
       <View style={styles.content}>
         {/* Search Bar */}
         <View style={styles.searchContainer}>
@@ -732,8 +554,11 @@ export default function DashboardScreen() {
             placeholderTextColor={Colors.text.gray[500]}
             value={searchQuery}
             onChangeText={setSearchQuery}
+            onFocus={() => setSearchFocused(true)}
+            onBlur={() => setSearchFocused(false)}
             autoCapitalize="none"
             autoCorrect={false}
+            returnKeyType="search"
           />
           {searchQuery.length > 0 && (
             <TouchableOpacity
@@ -749,11 +574,95 @@ export default function DashboardScreen() {
           )}
         </View>
 
-        {loading && filteredVideos.length === 0 ? (
+        {searchFocused && !isSearching && recentSearches.length > 0 && (
+          <View style={styles.recentSearches}>
+            <View style={styles.recentHeader}>
+              <Text style={styles.recentTitle}>Recent searches</Text>
+              <TouchableOpacity onPress={clearSearches} activeOpacity={0.7}>
+                <Text style={styles.recentClear}>Clear</Text>
+              </TouchableOpacity>
+            </View>
+            <View style={styles.recentChips}>
+              {recentSearches.map((term) => (
+                <TouchableOpacity
+                  key={term}
+                  onPress={() => setSearchQuery(term)}
+                  style={styles.recentChip}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons
+                    name="time-outline"
+                    size={14}
+                    color={Colors.text.gray[400]}
+                  />
+                  <Text style={styles.recentChipText}>{term}</Text>
+                  <TouchableOpacity
+                    onPress={() => removeSearch(term)}
+                    hitSlop={8}
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons
+                      name="close"
+                      size={14}
+                      color={Colors.text.gray[500]}
+                    />
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {!isSearching && <VideoFilterBar />}
+
+        {(isOffline || isStale) && (
+          <TouchableOpacity
+            onPress={refetch}
+            disabled={isOffline || loading}
+            style={styles.syncBanner}
+            activeOpacity={0.7}
+          >
+            {loading && !isOffline ? (
+              <ActivityIndicator size="small" color={Colors.text.gray[300]} />
+            ) : (
+              <Ionicons
+                name={isOffline ? "cloud-offline-outline" : "refresh"}
+                size={16}
+                color={Colors.text.gray[300]}
+              />
+            )}
+            <Text style={styles.syncBannerText}>
+              {isOffline
+                ? "You're offline. Showing saved videos"
+                : loading
+                ? "Updating your library"
+                : "Couldn't refresh. Tap to retry"}
+              {lastSyncedAt
+                ? ` · as of ${new Date(lastSyncedAt).toLocaleTimeString([], {
+                    hour: "numeric",
+                    minute: "2-digit",
+                  })}`
+                : ""}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {!isOffline && !isStale && connectionState === "reconnecting" && (
+          <View style={styles.syncBanner}>
+            <ActivityIndicator size="small" color={Colors.text.gray[300]} />
+            <Text style={styles.syncBannerText}>
+              Live updates paused. Reconnecting…
+            </Text>
+          </View>
+        )}
+
+        {listLoading &&
+        listIds.length === 0 &&
+        (isSearching || queue.length === 0) ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color={Colors.cyan[500]} />
           </View>
-        ) : filteredVideos.length === 0 ? (
+        ) : listIds.length === 0 && (isSearching || queue.length === 0) ? (
           <View style={styles.emptyContainer}>
             <Ionicons
               name="videocam-outline"
@@ -761,30 +670,57 @@ export default function DashboardScreen() {
               color={Colors.text.gray[500]}
             />
             <Text style={styles.emptyText}>
-              {searchQuery.trim() ? "No videos found" : "No videos yet"}
+              {isSearching
+                ? search.error
+                  ? "Search failed"
+                  : "No videos found"
+                : hasActiveFilters
+                ? "No matching videos"
+                : "No videos yet"}
             </Text>
             <Text style={styles.emptySubtext}>
-              {searchQuery.trim()
-                ? "Try a different search term"
+              {isSearching
+                ? search.error ?? "Try a different search term"
+                : hasActiveFilters
+                ? "Try changing or clearing the filters"
                 : "Create your first video to get started"}
             </Text>
           </View>
         ) : (
-          <FlatList
-            data={filteredVideos}
-            keyExtractor={(item) => item.id}
-            renderItem={({ item }) => (
-              <VideoItem
-                video={item}
-                onDownloadStart={() => setShowDownloadModal(true)}
-                onDownloadEnd={() => setShowDownloadModal(false)}
+          <SectionList
+            sections={sections}
+            keyExtractor={(id) => id}
+            renderSectionHeader={({ section }) => (
+              <Text style={styles.sectionHeader}>{section.title}</Text>
+            )}
+            stickySectionHeadersEnabled={false}
+            renderItem={({ item: id }) => (
+              <VideoRow
+                videoId={id}
+                onDownloadStart={handleDownloadStart}
+                onDownloadEnd={handleDownloadEnd}
                 onDelete={handleDeleteClick}
-                onRefreshSignedUrl={refreshVideoSignedUrl}
+                onRemix={handleRemix}
+                onToggleFavorite={handleToggleFavorite}
+                onCancel={confirmCancel}
+                cancelling={cancellingId === id}
+                onRetry={isRetried(id) ? null : handleRetry}
+                retrying={retryingId === id}
+                visible={visibleIds.has(id)}
+                highlight={isSearching ? search.resultsQuery : undefined}
+                queueStatus={queueStatuses[id]}
               />
             )}
+            ListHeaderComponent={
+              isSearching ? null : (
+                <GenerationQueueList balance={balance} />
+              )
+            }
             ItemSeparatorComponent={() => <View style={styles.divider} />}
             contentContainerStyle={styles.listContent}
             showsVerticalScrollIndicator={false}
+            onViewableItemsChanged={onViewableItemsChanged.current}
+            viewabilityConfig={VIEWABILITY_CONFIG}
             onEndReached={handleEndReached}
             onEndReachedThreshold={0.5}
             ListFooterComponent={renderFooter}
@@ -792,54 +728,11 @@ export default function DashboardScreen() {
         )}
       </View>
 
-      {/* Create Video Input - Above Keyboard */}
-      {showCreateInput && (
-        <KeyboardAvoidingView
-          behavior={Platform.OS === "ios" ? "padding" : "height"}
-          style={styles.keyboardAvoidingView}
-          keyboardVerticalOffset={Platform.OS === "ios" ? 0 : 0}
-        >
-          <TouchableWithoutFeedback onPress={() => {}}>
-            <View style={styles.createInputContainer}>
-              <TextInput
-                style={styles.createInput}
-                placeholder="Describe the video you want to create..."
-                placeholderTextColor={Colors.text.gray[500]}
-                value={prompt}
-                onChangeText={setPrompt}
-                multiline
-                autoFocus
-                editable={!creatingVideo}
-              />
-              {prompt.trim().length > 0 && (
-                <TouchableOpacity
-                  onPress={handleCreateVideo}
-                  disabled={creatingVideo}
-                  style={styles.sendButton}
-                  activeOpacity={0.7}
-                >
-                  {creatingVideo ? (
-                    <ActivityIndicator size="small" color={Colors.cyan[500]} />
-                  ) : (
-                    <Ionicons
-                      name="arrow-up"
-                      size={20}
-                      color={Colors.cyan[500]}
-                    />
-                  )}
-                </TouchableOpacity>
-              )}
-            </View>
-          </TouchableWithoutFeedback>
-        </KeyboardAvoidingView>
-      )}
-
       <BottomMenu
         balance={balance}
         onPressBilling={() => router.push("/profile/billing")}
         onPressProfile={() => router.push("/profile")}
-        onPressAdd={() => setShowCreateInput(true)}
-        addButtonDisabled={hasQueuedOrProcessingVideos}
+        onPressAdd={() => router.push("/create")}
       />
 
       {/* Download Progress Modal */}
@@ -902,120 +795,6 @@ export default function DashboardScreen() {
         </BlurView>
       </Modal>
 
-      {/* Voice Selection Modal */}
-      <Modal
-        visible={showVoiceModal}
-        transparent
-        animationType="fade"
-        onRequestClose={() => setShowVoiceModal(false)}
-      >
-        <BlurView intensity={20} style={styles.modalOverlay}>
-          <View style={styles.voiceModalContent}>
-            <Text style={styles.voiceModalTitle}>Select a Voice</Text>
-            {loadingVoices ? (
-              <View style={styles.voiceLoadingContainer}>
-                <ActivityIndicator size="large" color={Colors.cyan[500]} />
-                <Text style={styles.voiceLoadingText}>Loading voices...</Text>
-              </View>
-            ) : VOICES.length === 0 ? (
-              <View style={styles.voiceLoadingContainer}>
-                <Text style={styles.voiceLoadingText}>No voices available</Text>
-              </View>
-            ) : (
-              <ScrollView
-                style={styles.voiceList}
-                showsVerticalScrollIndicator={false}
-              >
-                {VOICES.map((voice) => (
-                  <TouchableOpacity
-                    key={voice.id}
-                    style={[
-                      styles.voiceItem,
-                      selectedVoice === voice.id && styles.voiceItemSelected,
-                    ]}
-                    onPress={() => setSelectedVoice(voice.id)}
-                    activeOpacity={0.7}
-                  >
-                    <TouchableOpacity
-                      onPress={(e) => {
-                        e.stopPropagation();
-                        handlePlayVoice(voice.id, voice.url);
-                      }}
-                      style={styles.voicePlayButton}
-                      activeOpacity={0.8}
-                    >
-                      {playingVoiceId === voice.id ? (
-                        <Ionicons name="pause" size={20} color="#FFFFFF" />
-                      ) : (
-                        <Ionicons name="play" size={20} color="#FFFFFF" />
-                      )}
-                    </TouchableOpacity>
-                    <View style={styles.voiceInfo}>
-                      <Text style={styles.voiceName}>{voice.displayName}</Text>
-                      <View
-                        style={[
-                          styles.voiceGenderBadge,
-                          voice.gender === "male"
-                            ? styles.voiceGenderMale
-                            : styles.voiceGenderFemale,
-                        ]}
-                      >
-                        <Text
-                          style={[
-                            styles.voiceGenderText,
-                            voice.gender === "male"
-                              ? styles.voiceGenderTextMale
-                              : styles.voiceGenderTextFemale,
-                          ]}
-                        >
-                          {voice.gender === "male" ? "Male" : "Female"}
-                        </Text>
-                      </View>
-                    </View>
-                    <View
-                      style={[
-                        styles.voiceRadio,
-                        selectedVoice === voice.id && styles.voiceRadioSelected,
-                      ]}
-                    >
-                      {selectedVoice === voice.id && (
-                        <View style={styles.voiceRadioInner} />
-                      )}
-                    </View>
-                  </TouchableOpacity>
-                ))}
-              </ScrollView>
-            )}
-            <View style={styles.voiceModalActions}>
-              <TouchableOpacity
-                onPress={() => {
-                  setShowVoiceModal(false);
-                  setSelectedVoice(null);
-                }}
-                style={[styles.voiceModalButton, styles.voiceModalCancelButton]}
-              >
-                <Text style={styles.voiceModalCancelText}>Cancel</Text>
-              </TouchableOpacity>
-              <TouchableOpacity
-                onPress={handleConfirmVoiceAndSubmit}
-                disabled={!selectedVoice || creatingVideo}
-                style={[
-                  styles.voiceModalButton,
-                  styles.voiceModalConfirmButton,
-                  (!selectedVoice || creatingVideo) &&
-                    styles.voiceModalButtonDisabled,
-                ]}
-              >
-                {creatingVideo ? (
-                  <ActivityIndicator size="small" color="#FFFFFF" />
-                ) : (
-                  <Text style={styles.voiceModalConfirmText}>Confirm</Text>
-                )}
-              </TouchableOpacity>
-            </View>
-          </View>
-        </BlurView>
-      </Modal>
     </LinearGradient>
   );
 }
@@ -1030,55 +809,21 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingBottom: 100, // Space for bottom menu
   },
-  backdrop: {
-    position: "absolute",
-    top: 0,
-    left: 0,
-    right: 0,
-    bottom: 0,
-    zIndex: 999,
-  },
-  keyboardAvoidingView: {
-    position: "absolute",
-    bottom: 0,
-    left: 0,
-    right: 0,
-    zIndex: 1000,
-  },
-  createInputContainer: {
+  syncBanner: {
     flexDirection: "row",
     alignItems: "center",
-    backgroundColor: "transparent",
-    paddingHorizontal: 16,
-    paddingVertical: 10,
-    paddingBottom: Platform.OS === "ios" ? 18 : 10,
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginTop: -8,
+    marginBottom: 12,
+    borderRadius: 10,
+    backgroundColor: "rgba(255, 255, 255, 0.08)",
   },
-  createInput: {
+  syncBannerText: {
     flex: 1,
-    backgroundColor: "rgba(60, 60, 60, 1.0) ",
-    color: "#FFFFFF",
-    fontSize: 16,
-    borderRadius: 20,
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-    marginRight: 8,
-    minHeight: 44,
-    maxHeight: 100,
-  },
-  sendButton: {
-    width: 44,
-    height: 44,
-    borderRadius: 22,
-    backgroundColor: "#FFFFFF",
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  closeButton: {
-    width: 36,
-    height: 36,
-    justifyContent: "center",
-    alignItems: "center",
-    marginLeft: 4,
+    color: Colors.text.gray[300],
+    fontSize: 13,
   },
   searchContainer: {
     flexDirection: "row",
@@ -1100,6 +845,46 @@ const styles = StyleSheet.create({
     fontSize: 16,
     paddingVertical: 12,
   },
+  recentSearches: {
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  recentHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  recentTitle: {
+    color: Colors.text.gray[400],
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  recentClear: {
+    color: Colors.cyan[500],
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  recentChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  recentChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "rgba(255, 255, 255, 0.08)",
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+  },
+  recentChipText: {
+    color: Colors.text.gray[300],
+    fontSize: 13,
+  },
   clearButton: {
     padding: 4,
     marginLeft: 4,
@@ -1168,18 +953,48 @@ const styles = StyleSheet.create({
     alignItems: "center",
     gap: 6,
   },
+  remixBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+    marginRight: 4,
+  },
+  remixBadgeText: {
+    color: Colors.text.gray[300],
+    fontSize: 12,
+    fontWeight: "500",
+  },
   statusDot: {
     width: 8,
     height: 8,
     borderRadius: 4,
   },
   statusText: {
+    flexShrink: 1,
     fontSize: 14,
     fontWeight: "500",
   },
+  elapsedText: {
+    color: Colors.text.gray[400],
+    fontSize: 13,
+    fontVariant: ["tabular-nums"],
+  },
   divider: {
     height: 12,
   },
+  sectionHeader: {
+    color: Colors.text.gray[400],
+    fontSize: 13,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    paddingTop: 8,
+    paddingBottom: 10,
+  },
   modalOverlay: {
     flex: 1,
     justifyContent: "center",
@@ -1273,143 +1088,4 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "700",
   },
-  voiceModalContent: {
-    backgroundColor: "rgba(30, 30, 30, 0.95)",
-    borderRadius: 20,
-    padding: 24,
-    maxWidth: 400,
-    width: "90%",
-    maxHeight: "80%",
-    borderWidth: 1,
-    borderColor: "rgba(255, 255, 255, 0.1)",
-  },
-  voiceModalTitle: {
-    color: "#FFFFFF",
-    fontSize: 24,
-    fontWeight: "700",
-    marginBottom: 20,
-    textAlign: "center",
-  },
-  voiceLoadingContainer: {
-    padding: 40,
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  voiceLoadingText: {
-    color: Colors.text.gray[400],
-    fontSize: 16,
-    marginTop: 12,
-  },
-  voiceList: {
-    maxHeight: 400,
-    marginBottom: 20,
-  },
-  voiceItem: {
-    flexDirection: "row",
-    alignItems: "center",
-    padding: 16,
-    marginBottom: 12,
-    backgroundColor: "rgba(0, 0, 0, 0.3)",
-    borderRadius: 12,
-    borderWidth: 2,
-    borderColor: "rgba(255, 255, 255, 0.1)",
-  },
-  voiceItemSelected: {
-    borderColor: Colors.cyan[500],
-    backgroundColor: "rgba(6, 182, 212, 0.1)",
-  },
-  voicePlayButton: {
-    width: 40,
-    height: 40,
-    borderRadius: 20,
-    backgroundColor: Colors.cyan[500],
-    justifyContent: "center",
-    alignItems: "center",
-    marginRight: 12,
-  },
-  voiceInfo: {
-    flex: 1,
-    flexDirection: "row",
-    alignItems: "center",
-    gap: 8,
-  },
-  voiceName: {
-    color: "#FFFFFF",
-    fontSize: 16,
-    fontWeight: "600",
-  },
-  voiceGenderBadge: {
-    paddingHorizontal: 8,
-    paddingVertical: 4,
-    borderRadius: 12,
-  },
-  voiceGenderMale: {
-    backgroundColor: "rgba(59, 130, 246, 0.2)",
-  },
-  voiceGenderFemale: {
-    backgroundColor: "rgba(236, 72, 153, 0.2)",
-  },
-  voiceGenderText: {
-    fontSize: 12,
-    fontWeight: "500",
-  },
-  voiceGenderTextMale: {
-    color: "#93c5fd",
-  },
-  voiceGenderTextFemale: {
-    color: "#f9a8d4",
-  },
-  voiceRadio: {
-    width: 20,
-    height: 20,
-    borderRadius: 10,
-    borderWidth: 2,
-    borderColor: "rgba(255, 255, 255, 0.4)",
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  voiceRadioSelected: {
-    borderColor: Colors.cyan[500],
-    backgroundColor: Colors.cyan[500],
-  },
-  voiceRadioInner: {
-    width: 8,
-    height: 8,
-    borderRadius: 4,
-    backgroundColor: "#1a1a1a",
-  },
-  voiceModalActions: {
-    flexDirection: "row",
-    gap: 12,
-    marginTop: 8,
-  },
-  voiceModalButton: {
-    flex: 1,
-    paddingVertical: 14,
-    paddingHorizontal: 24,
-    borderRadius: 12,
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  voiceModalCancelButton: {
-    backgroundColor: "rgba(255, 255, 255, 0.1)",
-    borderWidth: 1,
-    borderColor: "rgba(255, 255, 255, 0.2)",
-  },
-  voiceModalConfirmButton: {
-    backgroundColor: Colors.cyan[500],
-  },
-  voiceModalButtonDisabled: {
-    opacity: 0.5,
-  },
-  voiceModalCancelText: {
-    color: "#FFFFFF",
-    fontSize: 16,
-    fontWeight: "600",
-  },
-  voiceModalConfirmText: {
-    color: "#FFFFFF",
-    fontSize: 16,
-    fontWeight: "700",
-  },
 });
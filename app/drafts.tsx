@@ -0,0 +1,229 @@
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import { LinearGradient } from "expo-linear-gradient";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+
+import { Colors } from "@/constants/colors";
+import { useComposer } from "@/contexts/ComposerContext";
+import { PromptDraft, useDrafts } from "@/contexts/DraftsContext";
+
+function formatUpdatedAt(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default function DraftsScreen() {
+  const router = useRouter();
+  const { drafts, deleteDraft, duplicateDraft } = useDrafts();
+  const { draftId, restoreDraft, reset } = useComposer();
+
+  const handleRestore = (draft: PromptDraft) => {
+    restoreDraft(draft);
+    router.back();
+  };
+
+  const handleDelete = (draft: PromptDraft) => {
+    Alert.alert("Delete draft", "This draft will be removed permanently.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => {
+          deleteDraft(draft.id);
+          // Deleting the draft being edited also clears the composer
+          if (draft.id === draftId) {
+            reset();
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderItem = ({ item }: { item: PromptDraft }) => {
+    const isCurrent = item.id === draftId;
+
+    return (
+      <View style={[styles.draftItem, isCurrent && styles.draftItemCurrent]}>
+        <Text style={styles.draftPrompt} numberOfLines={3}>
+          {item.prompt.trim() || "Empty draft"}
+        </Text>
+        <View style={styles.draftFooter}>
+          <Text style={styles.draftMeta}>
+            {isCurrent ? "Editing · " : ""}
+            {formatUpdatedAt(item.updated_at)}
+          </Text>
+          <View style={styles.draftActions}>
+            <TouchableOpacity
+              onPress={() => duplicateDraft(item.id)}
+              style={styles.actionButton}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="copy-outline" size={18} color="#FFFFFF" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleDelete(item)}
+              style={styles.actionButton}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="trash-outline" size={18} color="#f87171" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleRestore(item)}
+              style={styles.restoreButton}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.restoreButtonText}>Restore</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <LinearGradient
+      colors={Colors.background.gradient as [string, string, string]}
+      style={styles.container}
+    >
+      {/* Top bar */}
+      <View style={styles.topBar}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          activeOpacity={0.8}
+          style={styles.backButton}
+        >
+          <Ionicons name="chevron-back" size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Drafts</Text>
+        <View style={styles.topBarRightSpacer} />
+      </View>
+
+      <FlatList
+        data={drafts}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons
+              name="document-text-outline"
+              size={48}
+              color={Colors.text.gray[500]}
+            />
+            <Text style={styles.emptyText}>
+              No drafts yet. Prompts you start writing are saved here
+              automatically.
+            </Text>
+          </View>
+        }
+      />
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 60,
+    paddingHorizontal: 8,
+  },
+  topBar: {
+    height: 48,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  title: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  topBarRightSpacer: {
+    width: 44,
+    height: 44,
+  },
+  listContent: {
+    paddingHorizontal: 8,
+    paddingBottom: 40,
+  },
+  draftItem: {
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+  },
+  draftItemCurrent: {
+    borderColor: Colors.cyan[500],
+  },
+  draftPrompt: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  draftFooter: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 12,
+  },
+  draftMeta: {
+    color: Colors.text.gray[400],
+    fontSize: 12,
+  },
+  draftActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  actionButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+  },
+  restoreButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: Colors.cyan[500],
+  },
+  restoreButtonText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  emptyContainer: {
+    alignItems: "center",
+    padding: 40,
+    gap: 12,
+  },
+  emptyText: {
+    color: Colors.text.gray[400],
+    fontSize: 15,
+    textAlign: "center",
+    lineHeight: 21,
+  },
+});
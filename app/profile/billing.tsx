@@ -23,7 +23,12 @@ const MAX_BALANCE = 100;
 export default function BillingScreen() {
   const router = useRouter();
   const { user } = useAuthContext();
-  const { balance, loading: loadingBalance, refetch } = useBalance();
+  const {
+    balance,
+    loading: loadingBalance,
+    lastUpdatedAt,
+    refetch,
+  } = useBalance();
 
   const [amount, setAmount] = useState<string>("");
   const [confirmVisible, setConfirmVisible] = useState(false);
@@ -152,6 +157,15 @@ export default function BillingScreen() {
             </Text>
           </View>
         )}
+        {lastUpdatedAt && (
+          <Text style={styles.balanceUpdated}>
+            Updated{" "}
+            {new Date(lastUpdatedAt).toLocaleTimeString([], {
+              hour: "numeric",
+              minute: "2-digit",
+            })}
+          </Text>
+        )}
       </View>
 
       {/* Add credits */}
@@ -299,6 +313,11 @@ const styles = StyleSheet.create({
     color: Colors.text.gray[400],
     fontSize: 12,
   },
+  balanceUpdated: {
+    color: Colors.text.gray[500],
+    fontSize: 11,
+    marginTop: 8,
+  },
   balanceLoading: {
     flexDirection: "row",
     alignItems: "center",
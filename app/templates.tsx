@@ -0,0 +1,411 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { LinearGradient } from "expo-linear-gradient";
+import { BlurView } from "expo-blur";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+
+import { Colors } from "@/constants/colors";
+import { usePromptTemplates } from "@/hooks/usePromptTemplates";
+import {
+  BUILT_IN_TEMPLATES,
+  PromptTemplate,
+  extractPlaceholders,
+} from "@/utils/promptTemplates";
+
+type EditorState = {
+  /** null when creating a new template */
+  id: string | null;
+  title: string;
+  body: string;
+};
+
+export default function TemplatesScreen() {
+  const router = useRouter();
+  const {
+    userTemplates,
+    loading,
+    error,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+  } = usePromptTemplates();
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [editorError, setEditorError] = useState<string | null>(null);
+
+  const openEditor = (template?: PromptTemplate) => {
+    setEditorError(null);
+    setEditor({
+      // Built-in templates are copied into a new user template
+      id: template && !template.built_in ? template.id : null,
+      title: template?.title ?? "",
+      body: template?.body ?? "",
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editor) {
+      return;
+    }
+    const title = editor.title.trim();
+    const body = editor.body.trim();
+    if (!title || !body) {
+      setEditorError("Title and template text are required");
+      return;
+    }
+
+    setSaving(true);
+    setEditorError(null);
+
+    try {
+      if (editor.id) {
+        await updateTemplate(editor.id, { title, body });
+      } else {
+        await createTemplate({ title, body });
+      }
+      setEditor(null);
+    } catch (err) {
+      console.error("Error saving prompt template:", err);
+      setEditorError(
+        err instanceof Error ? err.message : "Failed to save template"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (template: PromptTemplate) => {
+    Alert.alert("Delete template", `Delete "${template.title}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteTemplate(template.id);
+          } catch (err) {
+            console.error("Error deleting prompt template:", err);
+            Alert.alert("Error", "Failed to delete template");
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderTemplate = (template: PromptTemplate) => (
+    <View key={template.id} style={styles.templateItem}>
+      <View style={styles.templateHeader}>
+        <Text style={styles.templateTitle}>{template.title}</Text>
+        <View style={styles.templateActions}>
+          {template.built_in ? (
+            <TouchableOpacity
+              onPress={() => openEditor(template)}
+              style={styles.actionButton}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="copy-outline" size={18} color="#FFFFFF" />
+            </TouchableOpacity>
+          ) : (
+            <>
+              <TouchableOpacity
+                onPress={() => openEditor(template)}
+                style={styles.actionButton}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="create-outline" size={18} color="#FFFFFF" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => handleDelete(template)}
+                style={styles.actionButton}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="trash-outline" size={18} color="#f87171" />
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+      <Text style={styles.templateBody}>{template.body}</Text>
+    </View>
+  );
+
+  const editorPlaceholders = editor ? extractPlaceholders(editor.body) : [];
+
+  return (
+    <LinearGradient
+      colors={Colors.background.gradient as [string, string, string]}
+      style={styles.container}
+    >
+      {/* Top bar */}
+      <View style={styles.topBar}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          activeOpacity={0.8}
+          style={styles.backButton}
+        >
+          <Ionicons name="chevron-back" size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Templates</Text>
+        <TouchableOpacity
+          onPress={() => openEditor()}
+          activeOpacity={0.8}
+          style={styles.backButton}
+        >
+          <Ionicons name="add" size={26} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>My templates</Text>
+        {loading ? (
+          <ActivityIndicator size="small" color={Colors.cyan[500]} />
+        ) : error ? (
+          <Text style={styles.errorText}>{error}</Text>
+        ) : userTemplates.length === 0 ? (
+          <Text style={styles.emptyText}>
+            No templates yet. Tap + or copy a built-in template to start.
+          </Text>
+        ) : (
+          userTemplates.map(renderTemplate)
+        )}
+
+        <Text style={styles.sectionTitle}>Built-in</Text>
+        {BUILT_IN_TEMPLATES.map(renderTemplate)}
+      </ScrollView>
+
+      <Modal
+        visible={editor !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setEditor(null)}
+      >
+        <BlurView intensity={20} style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>
+              {editor?.id ? "Edit template" : "New template"}
+            </Text>
+            <TextInput
+              style={styles.titleInput}
+              value={editor?.title ?? ""}
+              onChangeText={(title) =>
+                setEditor((prev) => prev && { ...prev, title })
+              }
+              placeholder="Title"
+              placeholderTextColor={Colors.text.gray[500]}
+            />
+            <TextInput
+              style={styles.bodyInput}
+              value={editor?.body ?? ""}
+              onChangeText={(body) =>
+                setEditor((prev) => prev && { ...prev, body })
+              }
+              placeholder="Write the prompt. Use {{name}} for fill-in fields."
+              placeholderTextColor={Colors.text.gray[500]}
+              multiline
+            />
+            <Text style={styles.placeholdersText}>
+              {editorPlaceholders.length > 0
+                ? `Fields: ${editorPlaceholders.join(", ")}`
+                : "No fill-in fields"}
+            </Text>
+            {editorError && <Text style={styles.errorText}>{editorError}</Text>}
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                onPress={() => setEditor(null)}
+                disabled={saving}
+                style={[styles.modalButton, styles.modalCancelButton]}
+              >
+                <Text style={styles.modalButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleSave}
+                disabled={saving}
+                style={[
+                  styles.modalButton,
+                  styles.modalSaveButton,
+                  saving && styles.modalButtonDisabled,
+                ]}
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.modalButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </BlurView>
+      </Modal>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 60,
+    paddingHorizontal: 8,
+  },
+  topBar: {
+    height: 48,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  title: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  content: {
+    paddingHorizontal: 8,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    color: Colors.text.gray[300],
+    fontSize: 14,
+    fontWeight: "600",
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  emptyText: {
+    color: Colors.text.gray[400],
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  errorText: {
+    color: "#f87171",
+    fontSize: 14,
+    marginVertical: 8,
+  },
+  templateItem: {
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+  },
+  templateHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  templateTitle: {
+    flex: 1,
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  templateActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  actionButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+  },
+  templateBody: {
+    color: Colors.text.gray[400],
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.7)",
+  },
+  modalContent: {
+    backgroundColor: "rgba(30, 30, 30, 0.95)",
+    borderRadius: 20,
+    padding: 24,
+    maxWidth: 400,
+    width: "90%",
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+  },
+  modalTitle: {
+    color: "#FFFFFF",
+    fontSize: 20,
+    fontWeight: "700",
+    marginBottom: 16,
+    textAlign: "center",
+  },
+  titleInput: {
+    backgroundColor: "rgba(60, 60, 60, 1.0)",
+    color: "#FFFFFF",
+    fontSize: 16,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginBottom: 12,
+  },
+  bodyInput: {
+    backgroundColor: "rgba(60, 60, 60, 1.0)",
+    color: "#FFFFFF",
+    fontSize: 16,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    minHeight: 120,
+    maxHeight: 220,
+    textAlignVertical: "top",
+  },
+  placeholdersText: {
+    color: Colors.text.gray[400],
+    fontSize: 13,
+    marginTop: 8,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 20,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  modalCancelButton: {
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.2)",
+  },
+  modalSaveButton: {
+    backgroundColor: Colors.cyan[500],
+  },
+  modalButtonDisabled: {
+    opacity: 0.5,
+  },
+  modalButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useMemo } from "react";
+import React from "react";
 import {
   View,
   Text,
@@ -12,77 +12,98 @@ import { Ionicons } from "@expo/vector-icons";
 import { useRouter, useLocalSearchParams } from "expo-router";
 
 import { Colors } from "@/constants/colors";
-import { useVideos } from "@/hooks/useVideos";
+import { useVideo, useVideoSelector } from "@/contexts/VideoContext";
+import { shallowEqualArrays } from "@/lib/videoStore";
+import { useCancelVideo } from "@/hooks/useCancelVideo";
+import { isRetryFree, useRetryVideo } from "@/hooks/useRetryVideo";
+import { useBalance } from "@/hooks/useBalance";
+import { useNow } from "@/hooks/useNow";
+import { useQueueStatus } from "@/hooks/useQueueStatus";
+import { PRICE_PER_VIDEO } from "@/constants/constants";
+import { useComposer } from "@/contexts/ComposerContext";
+import { useGenerationOptionsCatalog } from "@/hooks/useGenerationOptionsCatalog";
+import { getRemixVersions } from "@/utils/videoGroups";
+import { describeGenerationOptions } from "@/utils/generationOptions";
+import { getVideoStatusInfo } from "@/utils/videoStatus";
+import { GenerationProgress } from "@/components/GenerationProgress";
+import { formatEstimatedStart } from "@/utils/videoProgress";
 
 export default function VideoStatusScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
   const videoId = params.id as string | undefined;
-  const { videos } = useVideos();
+  const { prefill } = useComposer();
+  const { catalog } = useGenerationOptionsCatalog();
+  const { cancellingId, confirmCancel } = useCancelVideo();
+  const { balance } = useBalance();
+  const { retryingId, retryVideo, isRetried } = useRetryVideo(balance);
 
   // Get the current video from context, or fallback to params if not found
-  const video = useMemo(() => {
-    if (videoId && videos.length > 0) {
-      return videos.find((v) => v.id === videoId);
-    }
-    return null;
-  }, [videoId, videos]);
+  const video = useVideo(videoId);
 
   // Use video from context if available, otherwise fallback to params
   const status = video?.status || (params.status as string | undefined);
   const errorMessage =
     video?.error_message || (params.errorMessage as string | undefined);
 
-  const getStatusContent = () => {
-    if (status === "failed") {
-      return {
-        icon: "alert-circle",
-        iconColor: "#f87171",
-        title: "Video Generation Failed",
-        message:
-          errorMessage ||
-          "An error occurred while generating your video. Please try creating a new video.",
-        headerTitle: "Video Error",
-      };
-    } else if (status === "queued") {
-      return {
-        icon: "time-outline",
-        iconColor: "#fbbf24",
-        title: "Video Queued",
-        message:
-          "Your video has been queued due to high demand. It will start processing automatically and take 7-12 minutes to complete once processing begins.",
-        headerTitle: "Video Status",
-      };
-    } else if (status === "processing") {
-      return {
-        icon: "hourglass-outline",
-        iconColor: "#06b6d4",
-        title: "Processing Video",
-        message: "Processing your video, it usually takes 7-12 minutes...",
-        headerTitle: "Video Status",
-      };
-    } else if (status === "completed") {
-      return {
-        icon: "checkmark-circle",
-        iconColor: "#06b6d4",
-        title: "Video Completed",
-        message:
-          "Your video has been successfully generated! You can download it from the dashboard.",
-        headerTitle: "Video Status",
-      };
-    } else {
-      return {
-        icon: "information-circle-outline",
-        iconColor: Colors.text.gray[400],
-        title: "Video Status",
-        message: status ? `Video status: ${status}` : "Loading video status...",
-        headerTitle: "Video Status",
-      };
+  const isQueued = video?.status === "queued";
+  const queueStatuses = useQueueStatus(isQueued ? [video.id] : []);
+  const queueStatus = isQueued ? queueStatuses[video.id] : undefined;
+  const now = useNow(isQueued, 30000);
+  const estimatedStart = formatEstimatedStart(
+    queueStatus?.estimated_start_at ?? null,
+    now
+  );
+  // Falls back to the generic queued copy while the position is unknown
+  const queueMessage =
+    isQueued && queueStatus?.position
+      ? `Your video is #${queueStatus.position} in the queue${
+          estimatedStart ? ` and ${estimatedStart}` : ""
+        }. Processing takes 7-12 minutes once it begins.`
+      : null;
+
+  const statusContent = getVideoStatusInfo(status);
+  const statusMessage =
+    (status === "failed" && errorMessage) ||
+    queueMessage ||
+    statusContent.message;
+  const isProcessing = statusContent.active;
+  // Live progress replaces the fixed time estimate once processing starts
+  const showProgress = video?.status === "processing";
+
+  // Other generations of the same idea, including this one
+  const versions = useVideoSelector(
+    (state) => (video ? getRemixVersions(video, state.list) : []),
+    shallowEqualArrays
+  );
+
+  // A loaded retry of this failed video. Retries waiting in the queue
+  // count as already retried too.
+  const retry = useVideoSelector((state) =>
+    video
+      ? Object.values(state.byId).find((v) => v.retry_of_video_id === video.id)
+      : undefined
+  );
+  const alreadyRetried = !!video && (!!retry || isRetried(video.id));
+
+  const handleRetry = async () => {
+    if (!video) return;
+    const retryId = await retryVideo(video);
+    if (retryId) {
+      router.setParams({ id: retryId, status: "queued" });
     }
   };
 
-  const statusContent = getStatusContent();
-  const isProcessing = status === "processing" || status === "queued";
+  const handleRemix = () => {
+    if (!video) return;
+    prefill({
+      prompt: video.prompt,
+      voice: video.voice,
+      sourceVideoId: video.id,
+      options: video.options ?? {},
+    });
+    router.push("/create");
+  };
 
   return (
     <LinearGradient
@@ -109,17 +130,143 @@ export default function VideoStatusScreen() {
       >
         <View style={styles.statusContainer}>
           {isProcessing ? (
-            <ActivityIndicator size="large" color={statusContent.iconColor} />
+            <ActivityIndicator size="large" color={statusContent.color} />
           ) : (
             <Ionicons
-              name={statusContent.icon as any}
+              name={statusContent.icon}
               size={64}
-              color={statusContent.iconColor}
+              color={statusContent.color}
             />
           )}
           <Text style={styles.statusTitle}>{statusContent.title}</Text>
-          <Text style={styles.statusMessage}>{statusContent.message}</Text>
+          {showProgress ? (
+            <GenerationProgress video={video} />
+          ) : (
+            <Text style={styles.statusMessage}>{statusMessage}</Text>
+          )}
         </View>
+
+        {video?.options && (
+          <View style={styles.optionsContainer}>
+            <Text style={styles.optionsTitle}>Generation options</Text>
+            {describeGenerationOptions(video.options, catalog).map((row) => (
+              <View key={row.label} style={styles.optionRow}>
+                <Text style={styles.optionLabel}>{row.label}</Text>
+                <Text style={styles.optionValue}>{row.value}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {video && statusContent.canRetry && (
+          <View style={styles.retryContainer}>
+            {alreadyRetried ? (
+              <>
+                <Text style={styles.retryNote}>
+                  This video has already been retried.
+                </Text>
+                {retry && (
+                  <TouchableOpacity
+                    onPress={() =>
+                      router.setParams({ id: retry.id, status: retry.status })
+                    }
+                    style={styles.retryButton}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={styles.retryButtonText}>View retry</Text>
+                  </TouchableOpacity>
+                )}
+              </>
+            ) : (
+              <>
+                <Text style={styles.retryNote}>
+                  {isRetryFree(video)
+                    ? "This retry is free because the failed attempt was refunded."
+                    : `This retry will be charged $${PRICE_PER_VIDEO.toFixed(
+                        2
+                      )} again.`}
+                </Text>
+                <TouchableOpacity
+                  onPress={handleRetry}
+                  disabled={retryingId === video.id}
+                  style={styles.retryButton}
+                  activeOpacity={0.8}
+                >
+                  {retryingId === video.id ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" />
+                  ) : (
+                    <>
+                      <Ionicons name="refresh" size={20} color="#FFFFFF" />
+                      <Text style={styles.retryButtonText}>
+                        {isRetryFree(video)
+                          ? "Retry for free"
+                          : `Retry · $${PRICE_PER_VIDEO}`}
+                      </Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        )}
+
+        {video && statusContent.canCancel && (
+          <TouchableOpacity
+            onPress={() => confirmCancel(video)}
+            disabled={cancellingId === video.id}
+            style={styles.cancelButton}
+            activeOpacity={0.8}
+          >
+            {cancellingId === video.id ? (
+              <ActivityIndicator size="small" color="#f87171" />
+            ) : (
+              <>
+                <Ionicons name="close-circle-outline" size={20} color="#f87171" />
+                <Text style={styles.cancelButtonText}>Cancel and refund</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
+
+        {video && (
+          <TouchableOpacity
+            onPress={handleRemix}
+            style={styles.remixButton}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="repeat-outline" size={20} color="#FFFFFF" />
+            <Text style={styles.remixButtonText}>Remix</Text>
+          </TouchableOpacity>
+        )}
+
+        {versions.length > 1 && (
+          <View style={styles.versionsContainer}>
+            <Text style={styles.versionsTitle}>
+              Versions of this idea ({versions.length})
+            </Text>
+            {versions.map((version, index) => (
+              <TouchableOpacity
+                key={version.id}
+                disabled={version.id === video?.id}
+                onPress={() =>
+                  router.setParams({ id: version.id, status: version.status })
+                }
+                style={[
+                  styles.versionRow,
+                  version.id === video?.id && styles.versionRowCurrent,
+                ]}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.versionLabel}>
+                  {index === 0 ? "Original" : `Remix ${index}`}
+                </Text>
+                <Text style={styles.versionStatus}>
+                  {getVideoStatusInfo(version.status).label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
       </ScrollView>
     </LinearGradient>
   );
@@ -179,4 +326,126 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     textAlign: "center",
   },
+  optionsContainer: {
+    marginTop: 20,
+    padding: 16,
+    gap: 8,
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+  },
+  optionsTitle: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "700",
+    marginBottom: 4,
+  },
+  optionRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  optionLabel: {
+    color: Colors.text.gray[400],
+    fontSize: 15,
+  },
+  optionValue: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  remixButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    marginTop: 20,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.cyan[500],
+  },
+  remixButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  retryContainer: {
+    marginTop: 20,
+    padding: 16,
+    gap: 12,
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+  },
+  retryNote: {
+    color: Colors.text.gray[300],
+    fontSize: 15,
+    lineHeight: 21,
+    textAlign: "center",
+  },
+  retryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.cyan[500],
+  },
+  retryButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  cancelButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    marginTop: 20,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "rgba(248, 113, 113, 0.5)",
+    backgroundColor: "rgba(239, 68, 68, 0.1)",
+  },
+  cancelButtonText: {
+    color: "#f87171",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  versionsContainer: {
+    marginTop: 24,
+    gap: 8,
+  },
+  versionsTitle: {
+    color: Colors.text.gray[300],
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  versionRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: "rgba(0, 0, 0, 0.2)",
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+  },
+  versionRowCurrent: {
+    borderColor: Colors.cyan[500],
+  },
+  versionLabel: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  versionStatus: {
+    color: Colors.text.gray[400],
+    fontSize: 14,
+    textTransform: "capitalize",
+  },
 });
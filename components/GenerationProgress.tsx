@@ -0,0 +1,175 @@
+import React from "react";
+import { View, Text, StyleSheet, ActivityIndicator } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { Colors } from "@/constants/colors";
+import { VideoRecord } from "@/constants/constants";
+import { useNow } from "@/hooks/useNow";
+import { useTypicalGenerationTime } from "@/hooks/useTypicalGenerationTime";
+import {
+  VIDEO_STAGES,
+  VIDEO_STAGE_INFO,
+  clampProgress,
+  estimateRemainingMs,
+  formatElapsed,
+  formatEta,
+  stageIndex,
+} from "@/utils/videoProgress";
+
+type Props = {
+  video: VideoRecord;
+};
+
+/**
+ * Pipeline stepper, progress bar and time estimate for a processing
+ * video. Stage and percent arrive with the realtime UPDATE broadcasts.
+ */
+export function GenerationProgress({ video }: Props) {
+  const now = useNow();
+  const { typicalMs, fromHistory } = useTypicalGenerationTime();
+  const current = stageIndex(video.stage);
+  const progress = clampProgress(video.progress);
+  const elapsedMs = now - Date.parse(video.created_at);
+  const remainingMs = estimateRemainingMs(video, typicalMs, now);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.stepper}>
+        {VIDEO_STAGES.map((stage, index) => {
+          const done = index < current;
+          const active = index === current;
+          const info = VIDEO_STAGE_INFO[stage];
+          return (
+            <React.Fragment key={stage}>
+              {index > 0 && (
+                <View
+                  style={[
+                    styles.connector,
+                    index <= current && styles.connectorDone,
+                  ]}
+                />
+              )}
+              <View style={styles.step}>
+                <View
+                  style={[
+                    styles.stepIcon,
+                    done && styles.stepIconDone,
+                    active && styles.stepIconActive,
+                  ]}
+                >
+                  {active ? (
+                    <ActivityIndicator size="small" color={Colors.cyan[400]} />
+                  ) : (
+                    <Ionicons
+                      name={done ? "checkmark" : info.icon}
+                      size={16}
+                      color={done ? "#FFFFFF" : Colors.text.gray[500]}
+                    />
+                  )}
+                </View>
+                <Text
+                  style={[
+                    styles.stepLabel,
+                    (done || active) && styles.stepLabelActive,
+                  ]}
+                >
+                  {info.label}
+                </Text>
+              </View>
+            </React.Fragment>
+          );
+        })}
+      </View>
+
+      <View style={styles.progressTrack}>
+        <View
+          style={[styles.progressFill, { width: `${progress ?? 0}%` }]}
+        />
+      </View>
+
+      <View style={styles.timing}>
+        <Text style={styles.timingText}>
+          {progress !== null ? `${Math.round(progress)}% · ` : ""}
+          Elapsed {formatElapsed(elapsedMs)}
+        </Text>
+        <Text style={styles.timingText}>
+          {formatEta(remainingMs)}
+          {fromHistory ? "" : " (estimate)"}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignSelf: "stretch",
+    marginTop: 24,
+    gap: 16,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+  },
+  step: {
+    alignItems: "center",
+    width: 64,
+    gap: 6,
+  },
+  stepIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.2)",
+  },
+  stepIconDone: {
+    borderColor: Colors.cyan[500],
+    backgroundColor: Colors.cyan[500],
+  },
+  stepIconActive: {
+    borderColor: Colors.cyan[500],
+    backgroundColor: "rgba(6, 182, 212, 0.1)",
+  },
+  stepLabel: {
+    color: Colors.text.gray[500],
+    fontSize: 12,
+    textAlign: "center",
+  },
+  stepLabelActive: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  connector: {
+    flex: 1,
+    height: 2,
+    marginTop: 15,
+    backgroundColor: "rgba(255, 255, 255, 0.2)",
+  },
+  connectorDone: {
+    backgroundColor: Colors.cyan[500],
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: "hidden",
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+  },
+  progressFill: {
+    height: "100%",
+    borderRadius: 3,
+    backgroundColor: Colors.cyan[500],
+  },
+  timing: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  timingText: {
+    color: Colors.text.gray[400],
+    fontSize: 13,
+  },
+});
+
+export default GenerationProgress;
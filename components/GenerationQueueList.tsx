@@ -0,0 +1,424 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+} from "react-native";
+import { BlurView } from "expo-blur";
+import { Ionicons } from "@expo/vector-icons";
+
+import { Colors } from "@/constants/colors";
+import {
+  QueuedPrompt,
+  useGenerationQueue,
+} from "@/contexts/GenerationQueueContext";
+import { useVoicesList } from "@/hooks/useVoicesList";
+
+const WAITING_COLOR = Colors.text.gray[400];
+
+type Props = {
+  balance: number | null;
+};
+
+/**
+ * Prompts waiting locally to be submitted once the current video finishes.
+ * Rendered above the video list on the dashboard.
+ */
+export function GenerationQueueList({ balance }: Props) {
+  const { queue, totalCost, submitting, moveItem, removeItem, retryItem } =
+    useGenerationQueue();
+  const [editingItem, setEditingItem] = useState<QueuedPrompt | null>(null);
+
+  if (queue.length === 0) {
+    return null;
+  }
+
+  const insufficientBalance = balance !== null && balance < totalCost;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Waiting ({queue.length})</Text>
+        <Text
+          style={[
+            styles.headerCost,
+            insufficientBalance && styles.headerCostInsufficient,
+          ]}
+        >
+          ${totalCost.toFixed(2)} needed
+        </Text>
+      </View>
+      {insufficientBalance && (
+        <Text style={styles.balanceWarning}>
+          Your balance of ${(balance ?? 0).toFixed(2)} does not cover the whole
+          queue. Add credits or remove items.
+        </Text>
+      )}
+
+      {queue.map((item, index) => {
+        const isSending = index === 0 && submitting;
+        return (
+          <View key={item.id} style={styles.item}>
+            <View style={styles.itemContent}>
+              <Text style={styles.itemPrompt} numberOfLines={2}>
+                {item.prompt}
+              </Text>
+              <View style={styles.statusContainer}>
+                <View
+                  style={[
+                    styles.statusDot,
+                    {
+                      backgroundColor: item.error ? "#f87171" : WAITING_COLOR,
+                    },
+                  ]}
+                />
+                <Text
+                  style={[
+                    styles.statusText,
+                    { color: item.error ? "#f87171" : WAITING_COLOR },
+                  ]}
+                  numberOfLines={2}
+                >
+                  {item.error
+                    ? item.error
+                    : isSending
+                    ? "Submitting..."
+                    : `Waiting · #${index + 1}`}
+                </Text>
+              </View>
+            </View>
+            <View style={styles.actionContainer}>
+              {item.error ? (
+                <TouchableOpacity
+                  onPress={() => retryItem(item.id)}
+                  style={styles.iconButton}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons name="refresh" size={18} color={Colors.cyan[500]} />
+                </TouchableOpacity>
+              ) : (
+                <>
+                  <TouchableOpacity
+                    onPress={() => moveItem(item.id, "up")}
+                    disabled={index === 0 || isSending}
+                    style={styles.iconButton}
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons
+                      name="chevron-up"
+                      size={18}
+                      color={
+                        index === 0 ? Colors.text.gray[500] : "#FFFFFF"
+                      }
+                    />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => moveItem(item.id, "down")}
+                    disabled={index === queue.length - 1 || isSending}
+                    style={styles.iconButton}
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons
+                      name="chevron-down"
+                      size={18}
+                      color={
+                        index === queue.length - 1
+                          ? Colors.text.gray[500]
+                          : "#FFFFFF"
+                      }
+                    />
+                  </TouchableOpacity>
+                </>
+              )}
+              <TouchableOpacity
+                onPress={() => setEditingItem(item)}
+                disabled={isSending}
+                style={styles.iconButton}
+                activeOpacity={0.7}
+              >
+                <Ionicons
+                  name="create-outline"
+                  size={18}
+                  color={Colors.cyan[500]}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => removeItem(item.id)}
+                disabled={isSending}
+                style={styles.iconButton}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="close" size={18} color="#f87171" />
+              </TouchableOpacity>
+            </View>
+          </View>
+        );
+      })}
+
+      <EditQueuedPromptModal
+        item={editingItem}
+        onClose={() => setEditingItem(null)}
+      />
+    </View>
+  );
+}
+
+type EditModalProps = {
+  item: QueuedPrompt | null;
+  onClose: () => void;
+};
+
+function EditQueuedPromptModal({ item, onClose }: EditModalProps) {
+  const { updateItem } = useGenerationQueue();
+  const { voices } = useVoicesList();
+  const [prompt, setPrompt] = useState("");
+  const [voice, setVoice] = useState<string | null>(null);
+  const [lastItemId, setLastItemId] = useState<string | null>(null);
+
+  // Reset the form whenever a different item is opened
+  if (item && item.id !== lastItemId) {
+    setLastItemId(item.id);
+    setPrompt(item.prompt);
+    setVoice(item.voice);
+  }
+
+  const handleSave = () => {
+    if (!item || !prompt.trim()) {
+      return;
+    }
+    updateItem(item.id, { prompt: prompt.trim(), voice });
+    setLastItemId(null);
+    onClose();
+  };
+
+  const handleClose = () => {
+    setLastItemId(null);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={item !== null}
+      transparent
+      animationType="fade"
+      onRequestClose={handleClose}
+    >
+      <BlurView intensity={20} style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>Edit queued video</Text>
+          <TextInput
+            style={styles.promptInput}
+            value={prompt}
+            onChangeText={setPrompt}
+            placeholder="Describe the video you want to create..."
+            placeholderTextColor={Colors.text.gray[500]}
+            multiline
+          />
+          {voices.length > 0 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.voiceChips}
+            >
+              {voices.map((option) => (
+                <TouchableOpacity
+                  key={option.id}
+                  onPress={() => setVoice(option.id)}
+                  style={[
+                    styles.voiceChip,
+                    voice === option.id && styles.voiceChipSelected,
+                  ]}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.voiceChipText}>
+                    {option.displayName}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+          <View style={styles.modalActions}>
+            <TouchableOpacity
+              onPress={handleClose}
+              style={[styles.modalButton, styles.modalCancelButton]}
+            >
+              <Text style={styles.modalButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleSave}
+              disabled={!prompt.trim()}
+              style={[
+                styles.modalButton,
+                styles.modalSaveButton,
+                !prompt.trim() && styles.modalButtonDisabled,
+              ]}
+            >
+              <Text style={styles.modalButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </BlurView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+    gap: 12,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  headerTitle: {
+    color: Colors.text.gray[300],
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  headerCost: {
+    color: Colors.cyan[500],
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  headerCostInsufficient: {
+    color: "#f87171",
+  },
+  balanceWarning: {
+    color: "#FCA5A5",
+    fontSize: 13,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 16,
+    paddingHorizontal: 16,
+    backgroundColor: "rgba(0, 0, 0, 0.2)",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderColor: "rgba(255, 255, 255, 0.2)",
+  },
+  itemContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+  itemPrompt: {
+    color: Colors.text.gray[300],
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  statusContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  statusDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  statusText: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  actionContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  iconButton: {
+    padding: 4,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.7)",
+  },
+  modalContent: {
+    backgroundColor: "rgba(30, 30, 30, 0.95)",
+    borderRadius: 20,
+    padding: 24,
+    maxWidth: 400,
+    width: "90%",
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+  },
+  modalTitle: {
+    color: "#FFFFFF",
+    fontSize: 20,
+    fontWeight: "700",
+    marginBottom: 16,
+    textAlign: "center",
+  },
+  promptInput: {
+    backgroundColor: "rgba(60, 60, 60, 1.0)",
+    color: "#FFFFFF",
+    fontSize: 16,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    minHeight: 88,
+    maxHeight: 160,
+    textAlignVertical: "top",
+  },
+  voiceChips: {
+    marginTop: 12,
+    flexGrow: 0,
+  },
+  voiceChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.2)",
+    marginRight: 8,
+  },
+  voiceChipSelected: {
+    borderColor: Colors.cyan[500],
+    backgroundColor: "rgba(6, 182, 212, 0.1)",
+  },
+  voiceChipText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 20,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  modalCancelButton: {
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.2)",
+  },
+  modalSaveButton: {
+    backgroundColor: Colors.cyan[500],
+  },
+  modalButtonDisabled: {
+    opacity: 0.5,
+  },
+  modalButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
+
+export default GenerationQueueList;
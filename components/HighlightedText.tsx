@@ -0,0 +1,51 @@
+import React from "react";
+import { Text, TextProps, StyleSheet } from "react-native";
+
+import { Colors } from "@/constants/colors";
+
+type Props = TextProps & {
+  children: string;
+  /** Case-insensitive text to highlight; nothing is highlighted when empty */
+  highlight?: string;
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Text with every occurrence of `highlight` emphasized, e.g. search
+ * matches in a video prompt.
+ */
+export function HighlightedText({ children, highlight, ...props }: Props) {
+  const term = highlight?.trim();
+  if (!term) {
+    return <Text {...props}>{children}</Text>;
+  }
+
+  // Splitting on a capturing group keeps the matches at odd indexes
+  const parts = children.split(new RegExp(`(${escapeRegExp(term)})`, "gi"));
+
+  return (
+    <Text {...props}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <Text key={index} style={styles.match}>
+            {part}
+          </Text>
+        ) : (
+          part
+        )
+      )}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  match: {
+    color: Colors.cyan[400],
+    fontWeight: "700",
+  },
+});
+
+export default HighlightedText;
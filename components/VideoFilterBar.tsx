@@ -0,0 +1,339 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+} from "react-native";
+import { BlurView } from "expo-blur";
+import { Ionicons } from "@expo/vector-icons";
+
+import { Colors } from "@/constants/colors";
+import { useVideoContext } from "@/contexts/VideoContext";
+import { useVoicesList } from "@/hooks/useVoicesList";
+import { VIDEO_STATUSES, VIDEO_STATUS_INFO } from "@/utils/videoStatus";
+import {
+  DATE_RANGE_OPTIONS,
+  DEFAULT_VIDEO_FILTERS,
+  SORT_OPTIONS,
+  countActiveFilters,
+} from "@/utils/videoFilters";
+
+type Menu = "sort" | "status" | "date" | "voice";
+
+type Option = {
+  id: string;
+  label: string;
+  selected: boolean;
+};
+
+/**
+ * Sort and filter chips for the video list. Changes reload the list
+ * from the first page and are remembered between sessions.
+ */
+export function VideoFilterBar() {
+  const { filters, sort, setFilters, setSort } = useVideoContext();
+  const { voices } = useVoicesList();
+  const [openMenu, setOpenMenu] = useState<Menu | null>(null);
+
+  const activeCount = countActiveFilters(filters);
+  const sortLabel = SORT_OPTIONS.find((option) => option.id === sort)?.label;
+  const dateLabel = DATE_RANGE_OPTIONS.find(
+    (option) => option.id === filters.dateRange
+  )?.label;
+  const voiceLabel = filters.voice
+    ? voices.find((voice) => voice.id === filters.voice)?.displayName ??
+      "Voice"
+    : "Any voice";
+  const statusLabel =
+    filters.statuses.length === 0
+      ? "Any status"
+      : filters.statuses.length === 1
+      ? VIDEO_STATUS_INFO[filters.statuses[0]].label
+      : `${filters.statuses.length} statuses`;
+
+  const toggleStatus = (id: string) => {
+    const status = VIDEO_STATUSES.find((s) => s === id);
+    if (!status) {
+      return;
+    }
+    setFilters({
+      ...filters,
+      statuses: filters.statuses.includes(status)
+        ? filters.statuses.filter((s) => s !== status)
+        : [...filters.statuses, status],
+    });
+  };
+
+  // Status is the only multi-select menu; the others close on pick
+  const menus: Record<
+    Menu,
+    { title: string; options: Option[]; onSelect: (id: string) => void }
+  > = {
+    sort: {
+      title: "Sort by",
+      options: SORT_OPTIONS.map((option) => ({
+        ...option,
+        selected: option.id === sort,
+      })),
+      onSelect: (id) => {
+        setSort(SORT_OPTIONS.find((option) => option.id === id)!.id);
+        setOpenMenu(null);
+      },
+    },
+    status: {
+      title: "Status",
+      options: VIDEO_STATUSES.map((status) => ({
+        id: status,
+        label: VIDEO_STATUS_INFO[status].label,
+        selected: filters.statuses.includes(status),
+      })),
+      onSelect: toggleStatus,
+    },
+    date: {
+      title: "Created",
+      options: DATE_RANGE_OPTIONS.map((option) => ({
+        ...option,
+        selected: option.id === filters.dateRange,
+      })),
+      onSelect: (id) => {
+        setFilters({
+          ...filters,
+          dateRange: DATE_RANGE_OPTIONS.find((option) => option.id === id)!
+            .id,
+        });
+        setOpenMenu(null);
+      },
+    },
+    voice: {
+      title: "Voice",
+      options: [
+        { id: "", label: "Any voice", selected: !filters.voice },
+        ...voices.map((voice) => ({
+          id: voice.id,
+          label: voice.displayName,
+          selected: voice.id === filters.voice,
+        })),
+      ],
+      onSelect: (id) => {
+        setFilters({ ...filters, voice: id || null });
+        setOpenMenu(null);
+      },
+    },
+  };
+
+  const menu = openMenu ? menus[openMenu] : null;
+
+  const renderChip = (
+    label: string,
+    active: boolean,
+    onPress: () => void,
+    icon?: React.ComponentProps<typeof Ionicons>["name"]
+  ) => (
+    <TouchableOpacity
+      onPress={onPress}
+      style={[styles.chip, active && styles.chipActive]}
+      activeOpacity={0.7}
+    >
+      {icon && (
+        <Ionicons
+          name={icon}
+          size={14}
+          color={active ? Colors.cyan[400] : Colors.text.gray[300]}
+        />
+      )}
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chips}
+      >
+        {renderChip(
+          sortLabel ?? "Sort",
+          sort !== "newest",
+          () => setOpenMenu("sort"),
+          "swap-vertical"
+        )}
+        {renderChip(statusLabel, filters.statuses.length > 0, () =>
+          setOpenMenu("status")
+        )}
+        {renderChip(dateLabel ?? "Any time", filters.dateRange !== "all", () =>
+          setOpenMenu("date")
+        )}
+        {renderChip(voiceLabel, !!filters.voice, () => setOpenMenu("voice"))}
+        {renderChip(
+          "Favorites",
+          filters.favoritesOnly,
+          () =>
+            setFilters({ ...filters, favoritesOnly: !filters.favoritesOnly }),
+          filters.favoritesOnly ? "star" : "star-outline"
+        )}
+        {activeCount > 0 && (
+          <TouchableOpacity
+            onPress={() => setFilters(DEFAULT_VIDEO_FILTERS)}
+            style={styles.clearChip}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.clearChipText}>Clear ({activeCount})</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      <Modal
+        visible={menu !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setOpenMenu(null)}
+      >
+        <BlurView intensity={20} style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{menu?.title}</Text>
+            <ScrollView style={styles.optionList}>
+              {menu?.options.map((option) => (
+                <TouchableOpacity
+                  key={option.id}
+                  onPress={() => menu.onSelect(option.id)}
+                  style={styles.option}
+                  activeOpacity={0.7}
+                >
+                  <Text
+                    style={[
+                      styles.optionText,
+                      option.selected && styles.optionTextSelected,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                  {option.selected && (
+                    <Ionicons
+                      name="checkmark"
+                      size={18}
+                      color={Colors.cyan[500]}
+                    />
+                  )}
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <TouchableOpacity
+              onPress={() => setOpenMenu(null)}
+              style={styles.modalButton}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.modalButtonText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        </BlurView>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  chips: {
+    gap: 8,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "rgba(255, 255, 255, 0.08)",
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+  },
+  chipActive: {
+    borderColor: Colors.cyan[500],
+    backgroundColor: "rgba(6, 182, 212, 0.1)",
+  },
+  chipText: {
+    color: Colors.text.gray[300],
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: Colors.cyan[400],
+    fontWeight: "600",
+  },
+  clearChip: {
+    justifyContent: "center",
+    paddingHorizontal: 8,
+  },
+  clearChipText: {
+    color: Colors.cyan[500],
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.7)",
+  },
+  modalContent: {
+    backgroundColor: "rgba(30, 30, 30, 0.95)",
+    borderRadius: 20,
+    padding: 24,
+    maxWidth: 400,
+    maxHeight: "70%",
+    width: "90%",
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+  },
+  modalTitle: {
+    color: "#FFFFFF",
+    fontSize: 20,
+    fontWeight: "700",
+    marginBottom: 16,
+    textAlign: "center",
+  },
+  optionList: {
+    flexGrow: 0,
+  },
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(255, 255, 255, 0.08)",
+  },
+  optionText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+  },
+  optionTextSelected: {
+    color: Colors.cyan[400],
+    fontWeight: "600",
+  },
+  modalButton: {
+    marginTop: 20,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.2)",
+  },
+  modalButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
+
+export default VideoFilterBar;
@@ -0,0 +1,257 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { Colors } from "@/constants/colors";
+import { MusicTrack } from "@/hooks/useMusicList";
+import { useAudioPreview } from "@/hooks/useAudioPreview";
+
+type Props = {
+  tracks: MusicTrack[];
+  loading: boolean;
+  selectedTrackId: string | null;
+  onSelect: (trackId: string | null) => void;
+};
+
+type FilterRowProps = {
+  values: string[];
+  selected: string | null;
+  onSelect: (value: string | null) => void;
+};
+
+function FilterRow({ values, selected, onSelect }: FilterRowProps) {
+  if (values.length < 2) {
+    return null;
+  }
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.filterRow}
+    >
+      {[null, ...values].map((value) => (
+        <TouchableOpacity
+          key={value ?? "all"}
+          onPress={() => onSelect(value)}
+          style={[styles.filterChip, selected === value && styles.filterChipSelected]}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.filterChipText}>{value ?? "All"}</Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+}
+
+/**
+ * Background music selection with preview playback and genre/mood filters.
+ * `null` means the video is generated without music.
+ */
+export function MusicPicker({
+  tracks,
+  loading,
+  selectedTrackId,
+  onSelect,
+}: Props) {
+  const { playingId, togglePreview, stopAll } = useAudioPreview();
+  const [genre, setGenre] = useState<string | null>(null);
+  const [mood, setMood] = useState<string | null>(null);
+
+  // Stop previews when the picker goes away
+  useEffect(() => stopAll, [stopAll]);
+
+  const genres = useMemo(
+    () => Array.from(new Set(tracks.map((t) => t.genre))).sort(),
+    [tracks]
+  );
+  const moods = useMemo(
+    () => Array.from(new Set(tracks.map((t) => t.mood))).sort(),
+    [tracks]
+  );
+  const filteredTracks = useMemo(
+    () =>
+      tracks.filter(
+        (t) => (!genre || t.genre === genre) && (!mood || t.mood === mood)
+      ),
+    [tracks, genre, mood]
+  );
+
+  const renderRadio = (selected: boolean) => (
+    <View style={[styles.radio, selected && styles.radioSelected]}>
+      {selected && <View style={styles.radioInner} />}
+    </View>
+  );
+
+  return (
+    <View>
+      <FilterRow values={genres} selected={genre} onSelect={setGenre} />
+      <FilterRow values={moods} selected={mood} onSelect={setMood} />
+
+      <TouchableOpacity
+        style={[
+          styles.trackItem,
+          selectedTrackId === null && styles.trackItemSelected,
+        ]}
+        onPress={() => onSelect(null)}
+        activeOpacity={0.7}
+      >
+        <View style={[styles.playButton, styles.noMusicIcon]}>
+          <Ionicons name="volume-mute" size={18} color="#FFFFFF" />
+        </View>
+        <View style={styles.trackInfo}>
+          <Text style={styles.trackTitle}>No music</Text>
+        </View>
+        {renderRadio(selectedTrackId === null)}
+      </TouchableOpacity>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="small" color={Colors.cyan[500]} />
+        </View>
+      ) : filteredTracks.length === 0 ? (
+        <Text style={styles.emptyText}>
+          {tracks.length === 0
+            ? "No music tracks available"
+            : "No tracks match these filters"}
+        </Text>
+      ) : (
+        filteredTracks.map((track) => (
+          <TouchableOpacity
+            key={track.id}
+            style={[
+              styles.trackItem,
+              selectedTrackId === track.id && styles.trackItemSelected,
+            ]}
+            onPress={() => onSelect(track.id)}
+            activeOpacity={0.7}
+          >
+            <TouchableOpacity
+              onPress={(e) => {
+                e.stopPropagation();
+                togglePreview(track.id, track.url);
+              }}
+              style={styles.playButton}
+              activeOpacity={0.8}
+            >
+              <Ionicons
+                name={playingId === track.id ? "pause" : "play"}
+                size={18}
+                color="#FFFFFF"
+              />
+            </TouchableOpacity>
+            <View style={styles.trackInfo}>
+              <Text style={styles.trackTitle}>{track.title}</Text>
+              <Text style={styles.trackMeta}>
+                {track.genre} · {track.mood}
+              </Text>
+            </View>
+            {renderRadio(selectedTrackId === track.id)}
+          </TouchableOpacity>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  filterRow: {
+    flexGrow: 0,
+    marginBottom: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.2)",
+    marginRight: 8,
+  },
+  filterChipSelected: {
+    borderColor: Colors.cyan[500],
+    backgroundColor: "rgba(6, 182, 212, 0.15)",
+  },
+  filterChipText: {
+    color: Colors.text.gray[300],
+    fontSize: 13,
+    textTransform: "capitalize",
+  },
+  loadingContainer: {
+    padding: 20,
+    alignItems: "center",
+  },
+  emptyText: {
+    color: Colors.text.gray[400],
+    fontSize: 14,
+    textAlign: "center",
+    paddingVertical: 12,
+  },
+  trackItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 12,
+    marginBottom: 8,
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+  },
+  trackItemSelected: {
+    borderColor: Colors.cyan[500],
+    backgroundColor: "rgba(6, 182, 212, 0.1)",
+  },
+  playButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: Colors.cyan[500],
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 12,
+  },
+  noMusicIcon: {
+    backgroundColor: "rgba(255, 255, 255, 0.15)",
+  },
+  trackInfo: {
+    flex: 1,
+  },
+  trackTitle: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  trackMeta: {
+    color: Colors.text.gray[400],
+    fontSize: 13,
+    marginTop: 2,
+    textTransform: "capitalize",
+  },
+  radio: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: "rgba(255, 255, 255, 0.4)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  radioSelected: {
+    borderColor: Colors.cyan[500],
+    backgroundColor: Colors.cyan[500],
+  },
+  radioInner: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#1a1a1a",
+  },
+});
+
+export default MusicPicker;
@@ -0,0 +1,226 @@
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+
+import { Colors } from "@/constants/colors";
+import { useComposer } from "@/contexts/ComposerContext";
+import { GenerationOptionsCatalog } from "@/lib/edgeFunctions";
+import { resolveGenerationOptions } from "@/utils/generationOptions";
+import { MusicTrack } from "@/hooks/useMusicList";
+import { MusicPicker } from "./MusicPicker";
+
+type Props = {
+  catalog: GenerationOptionsCatalog | null;
+  loading: boolean;
+  error: string | null;
+  onRetry: () => void;
+  musicTracks: MusicTrack[];
+  loadingMusic: boolean;
+};
+
+type ChipGroupProps<T> = {
+  title: string;
+  choices: { value: T; label: string }[];
+  selected: T;
+  onSelect: (value: T) => void;
+};
+
+function ChipGroup<T>({ title, choices, selected, onSelect }: ChipGroupProps<T>) {
+  return (
+    <View style={styles.group}>
+      <Text style={styles.groupTitle}>{title}</Text>
+      <View style={styles.chips}>
+        {choices.map((choice) => (
+          <TouchableOpacity
+            key={String(choice.value)}
+            onPress={() => onSelect(choice.value)}
+            style={[styles.chip, choice.value === selected && styles.chipSelected]}
+            activeOpacity={0.7}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                choice.value === selected && styles.chipTextSelected,
+              ]}
+            >
+              {choice.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+export function OptionsStep({
+  catalog,
+  loading,
+  error,
+  onRetry,
+  musicTracks,
+  loadingMusic,
+}: Props) {
+  const { options, setOption } = useComposer();
+
+  if (loading) {
+    return (
+      <View style={styles.stateContainer}>
+        <ActivityIndicator size="large" color={Colors.cyan[500]} />
+        <Text style={styles.stateText}>Loading options...</Text>
+      </View>
+    );
+  }
+
+  if (!catalog) {
+    return (
+      <View style={styles.stateContainer}>
+        <Text style={styles.stateText}>
+          {error || "Generation options are unavailable"}
+        </Text>
+        <TouchableOpacity onPress={onRetry} activeOpacity={0.7}>
+          <Text style={styles.retryText}>Try again</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const resolved = resolveGenerationOptions(options, catalog);
+
+  return (
+    <View>
+      <Text style={styles.label}>Options</Text>
+      {error && (
+        <View style={styles.fallbackNotice}>
+          <Text style={styles.fallbackText}>
+            Couldn&apos;t load every option, so only the defaults are offered.
+          </Text>
+          <TouchableOpacity onPress={onRetry} activeOpacity={0.7}>
+            <Text style={styles.retryText}>Try again</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      <ChipGroup
+        title="Aspect ratio"
+        choices={catalog.aspect_ratios.map((c) => ({
+          value: c.id,
+          label: c.label,
+        }))}
+        selected={resolved.aspect_ratio}
+        onSelect={(value) => setOption("aspect_ratio", value)}
+      />
+      <ChipGroup
+        title="Length"
+        choices={catalog.durations.map((seconds) => ({
+          value: seconds,
+          label: `${seconds}s`,
+        }))}
+        selected={resolved.target_duration}
+        onSelect={(value) => setOption("target_duration", value)}
+      />
+      <ChipGroup
+        title="Captions"
+        choices={catalog.caption_styles.map((c) => ({
+          value: c.id,
+          label: c.label,
+        }))}
+        selected={resolved.caption_style}
+        onSelect={(value) => setOption("caption_style", value)}
+      />
+      <View style={styles.group}>
+        <Text style={styles.groupTitle}>Background music</Text>
+        <MusicPicker
+          tracks={musicTracks}
+          loading={loadingMusic}
+          selectedTrackId={resolved.music_track_id}
+          onSelect={(value) => setOption("music_track_id", value)}
+        />
+      </View>
+      <ChipGroup
+        title="Language"
+        choices={catalog.languages.map((c) => ({
+          value: c.id,
+          label: c.label,
+        }))}
+        selected={resolved.language}
+        onSelect={(value) => setOption("language", value)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    color: "#FFFFFF",
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 12,
+  },
+  stateContainer: {
+    padding: 40,
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 12,
+  },
+  stateText: {
+    color: Colors.text.gray[400],
+    fontSize: 16,
+    textAlign: "center",
+  },
+  retryText: {
+    color: Colors.cyan[500],
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  fallbackNotice: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginBottom: 16,
+  },
+  fallbackText: {
+    flex: 1,
+    color: Colors.text.gray[400],
+    fontSize: 14,
+  },
+  group: {
+    marginBottom: 20,
+  },
+  groupTitle: {
+    color: Colors.text.gray[300],
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.2)",
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+  },
+  chipSelected: {
+    borderColor: Colors.cyan[500],
+    backgroundColor: "rgba(6, 182, 212, 0.15)",
+  },
+  chipText: {
+    color: Colors.text.gray[300],
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+});
+
+export default OptionsStep;
@@ -0,0 +1,125 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+
+import { Colors } from "@/constants/colors";
+import { PROMPT_MAX_LENGTH, useComposer } from "@/contexts/ComposerContext";
+import { TemplatePicker } from "./TemplatePicker";
+
+export function PromptStep() {
+  const router = useRouter();
+  const { prompt, setPrompt } = useComposer();
+  const [templatesVisible, setTemplatesVisible] = useState(false);
+  const length = prompt.trim().length;
+
+  const handleApplyTemplate = (text: string) => {
+    if (!prompt.trim()) {
+      setPrompt(text);
+      return;
+    }
+    Alert.alert("Replace prompt?", "The template will replace your prompt.", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Replace", onPress: () => setPrompt(text) },
+    ]);
+  };
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <Text style={styles.label}>What should your video be about?</Text>
+        <TouchableOpacity
+          onPress={() => setTemplatesVisible(true)}
+          style={styles.templatesButton}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="albums-outline" size={16} color={Colors.cyan[500]} />
+          <Text style={styles.templatesButtonText}>Templates</Text>
+        </TouchableOpacity>
+      </View>
+      <TextInput
+        style={styles.input}
+        placeholder="Describe the video you want to create..."
+        placeholderTextColor={Colors.text.gray[500]}
+        value={prompt}
+        onChangeText={setPrompt}
+        multiline
+        autoFocus
+        textAlignVertical="top"
+      />
+      <Text
+        style={[
+          styles.counter,
+          length > PROMPT_MAX_LENGTH && styles.counterOver,
+        ]}
+      >
+        {length}/{PROMPT_MAX_LENGTH}
+      </Text>
+
+      <TemplatePicker
+        visible={templatesVisible}
+        onClose={() => setTemplatesVisible(false)}
+        onApply={handleApplyTemplate}
+        onManage={() => router.push("/templates")}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    justifyContent: "space-between",
+    gap: 12,
+    marginBottom: 12,
+  },
+  label: {
+    flex: 1,
+    color: "#FFFFFF",
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  templatesButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingVertical: 4,
+  },
+  templatesButtonText: {
+    color: Colors.cyan[500],
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  input: {
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+    color: "#FFFFFF",
+    fontSize: 16,
+    lineHeight: 22,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    minHeight: 160,
+    maxHeight: 320,
+  },
+  counter: {
+    color: Colors.text.gray[500],
+    fontSize: 12,
+    textAlign: "right",
+    marginTop: 8,
+  },
+  counterOver: {
+    color: "#f87171",
+  },
+});
+
+export default PromptStep;
@@ -0,0 +1,198 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+
+import { Colors } from "@/constants/colors";
+import { PRICE_PER_VIDEO } from "@/constants/constants";
+import { ComposerStep, useComposer } from "@/contexts/ComposerContext";
+import { useVoicesList } from "@/hooks/useVoicesList";
+import { GenerationOptionsCatalog } from "@/lib/edgeFunctions";
+import {
+  describeGenerationOptions,
+  resolveGenerationOptions,
+} from "@/utils/generationOptions";
+
+type Props = {
+  catalog: GenerationOptionsCatalog | null;
+  balance: number | null;
+  /** Cost of items already waiting in the local queue */
+  queuedCost: number;
+  willQueue: boolean;
+};
+
+type RowProps = {
+  label: string;
+  value: string;
+  onEdit?: () => void;
+};
+
+function SummaryRow({ label, value, onEdit }: RowProps) {
+  return (
+    <View style={styles.row}>
+      <View style={styles.rowHeader}>
+        <Text style={styles.rowLabel}>{label}</Text>
+        {onEdit && (
+          <TouchableOpacity onPress={onEdit} activeOpacity={0.7}>
+            <Text style={styles.editLink}>Edit</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text style={styles.rowValue}>{value}</Text>
+    </View>
+  );
+}
+
+export function ReviewStep({
+  catalog,
+  balance,
+  queuedCost,
+  willQueue,
+}: Props) {
+  const {
+    prompt,
+    voice,
+    sourceVideoId,
+    options,
+    script,
+    scriptApproved,
+    setStep,
+  } = useComposer();
+  const { voices } = useVoicesList();
+
+  const voiceName =
+    voices.find((option) => option.id === voice)?.displayName ?? voice ?? "-";
+  const totalNeeded = queuedCost + PRICE_PER_VIDEO;
+  const insufficient = balance === null || balance < totalNeeded;
+  const editStep = (step: ComposerStep) => () => setStep(step);
+
+  return (
+    <View>
+      <Text style={styles.label}>Review</Text>
+      <SummaryRow
+        label={sourceVideoId ? "Prompt (remix)" : "Prompt"}
+        value={prompt.trim()}
+        onEdit={editStep("prompt")}
+      />
+      <SummaryRow label="Voice" value={voiceName} onEdit={editStep("voice")} />
+      {catalog && (
+        <SummaryRow
+          label="Options"
+          value={describeGenerationOptions(
+            resolveGenerationOptions(options, catalog),
+            catalog
+          )
+            .map((row) => `${row.label}: ${row.value}`)
+            .join("\n")}
+          onEdit={editStep("options")}
+        />
+      )}
+      <SummaryRow
+        label="Script"
+        value={
+          script && scriptApproved
+            ? script.narration.trim()
+            : "Written automatically during generation"
+        }
+        onEdit={editStep("script")}
+      />
+
+      <View style={styles.costCard}>
+        <View style={styles.costRow}>
+          <Text style={styles.costLabel}>Price</Text>
+          <Text style={styles.costValue}>${PRICE_PER_VIDEO.toFixed(2)}</Text>
+        </View>
+        {queuedCost > 0 && (
+          <View style={styles.costRow}>
+            <Text style={styles.costLabel}>Already waiting in queue</Text>
+            <Text style={styles.costValue}>${queuedCost.toFixed(2)}</Text>
+          </View>
+        )}
+        <View style={styles.costRow}>
+          <Text style={styles.costLabel}>Your balance</Text>
+          <Text style={[styles.costValue, insufficient && styles.costWarning]}>
+            ${(balance ?? 0).toFixed(2)}
+          </Text>
+        </View>
+        {insufficient && (
+          <Text style={styles.costWarning}>
+            You need at least ${totalNeeded.toFixed(2)} to generate this video.
+          </Text>
+        )}
+        {willQueue && (
+          <Text style={styles.queueNote}>
+            Another video is generating. This one will wait in your queue and
+            start automatically.
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    color: "#FFFFFF",
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 12,
+  },
+  row: {
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+  },
+  rowHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 6,
+  },
+  rowLabel: {
+    color: Colors.text.gray[400],
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  editLink: {
+    color: Colors.cyan[500],
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  rowValue: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  costCard: {
+    padding: 16,
+    gap: 8,
+    backgroundColor: "rgba(6, 182, 212, 0.08)",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "rgba(6, 182, 212, 0.3)",
+  },
+  costRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  costLabel: {
+    color: Colors.text.gray[300],
+    fontSize: 15,
+  },
+  costValue: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  costWarning: {
+    color: "#f87171",
+  },
+  queueNote: {
+    color: Colors.text.gray[300],
+    fontSize: 13,
+    lineHeight: 18,
+  },
+});
+
+export default ReviewStep;
@@ -0,0 +1,297 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { Colors } from "@/constants/colors";
+import { useComposer } from "@/contexts/ComposerContext";
+import {
+  GenerationOptionsCatalog,
+  isEdgeFunctionError,
+  previewScript,
+} from "@/lib/edgeFunctions";
+import { resolveGenerationOptions } from "@/utils/generationOptions";
+
+type Props = {
+  catalog: GenerationOptionsCatalog | null;
+};
+
+/**
+ * Optional step: previews the narration for free so the user can edit
+ * and approve it before paying for the video.
+ */
+export function ScriptStep({ catalog }: Props) {
+  const {
+    prompt,
+    voice,
+    options,
+    script,
+    scriptApproved,
+    setScript,
+    approveScript,
+  } = useComposer();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Abort a pending preview when leaving the step
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      abortControllerRef.current = null;
+    };
+  }, []);
+
+  const handlePreview = async () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await previewScript(
+        {
+          prompt: prompt.trim(),
+          ...(voice ? { voice } : {}),
+          ...(catalog
+            ? { options: resolveGenerationOptions(options, catalog) }
+            : {}),
+        },
+        { signal: controller.signal }
+      );
+      setScript(result);
+    } catch (err) {
+      if (isEdgeFunctionError(err) && err.kind === "aborted") {
+        return;
+      }
+      setError(err instanceof Error ? err.message : "Failed to preview script");
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  if (!script) {
+    return (
+      <View>
+        <Text style={styles.label}>Preview the script</Text>
+        <Text style={styles.description}>
+          Optional. See the narration and scenes before generating. Previews are
+          free; you are only charged when you generate the video.
+        </Text>
+        <TouchableOpacity
+          onPress={handlePreview}
+          disabled={loading}
+          style={[styles.previewButton, loading && styles.buttonDisabled]}
+          activeOpacity={0.8}
+        >
+          {loading ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.previewButtonText}>Preview script</Text>
+          )}
+        </TouchableOpacity>
+        {error && <Text style={styles.errorText}>{error}</Text>}
+        <Text style={styles.hint}>
+          Skip this step to let the script be written during generation.
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      <Text style={styles.label}>Narration</Text>
+      <TextInput
+        style={styles.input}
+        value={script.narration}
+        onChangeText={(narration) => setScript({ ...script, narration })}
+        multiline
+        textAlignVertical="top"
+        editable={!loading}
+      />
+
+      <Text style={styles.sectionTitle}>Scenes</Text>
+      {script.scenes.map((scene, index) => (
+        <View key={index} style={styles.sceneItem}>
+          <Text style={styles.sceneIndex}>{index + 1}</Text>
+          <Text style={styles.sceneText}>{scene.description}</Text>
+          <Text style={styles.sceneDuration}>{scene.duration_seconds}s</Text>
+        </View>
+      ))}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          onPress={() => setScript(null)}
+          disabled={loading}
+          style={styles.secondaryAction}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.secondaryActionText}>Discard</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={handlePreview}
+          disabled={loading}
+          style={styles.secondaryAction}
+          activeOpacity={0.7}
+        >
+          {loading ? (
+            <ActivityIndicator size="small" color={Colors.cyan[500]} />
+          ) : (
+            <Text style={styles.secondaryActionText}>Regenerate</Text>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={approveScript}
+          disabled={loading || scriptApproved}
+          style={[styles.approveButton, scriptApproved && styles.approvedButton]}
+          activeOpacity={0.8}
+        >
+          {scriptApproved && (
+            <Ionicons name="checkmark" size={16} color="#FFFFFF" />
+          )}
+          <Text style={styles.approveButtonText}>
+            {scriptApproved ? "Approved" : "Approve"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    color: "#FFFFFF",
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 12,
+  },
+  description: {
+    color: Colors.text.gray[300],
+    fontSize: 15,
+    lineHeight: 21,
+    marginBottom: 16,
+  },
+  hint: {
+    color: Colors.text.gray[500],
+    fontSize: 13,
+    marginTop: 12,
+  },
+  previewButton: {
+    backgroundColor: Colors.cyan[500],
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  previewButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  errorText: {
+    color: "#f87171",
+    fontSize: 14,
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+    color: "#FFFFFF",
+    fontSize: 16,
+    lineHeight: 22,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    minHeight: 140,
+    maxHeight: 280,
+  },
+  sectionTitle: {
+    color: Colors.text.gray[300],
+    fontSize: 14,
+    fontWeight: "600",
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  sceneItem: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 10,
+    padding: 12,
+    marginBottom: 8,
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+  },
+  sceneIndex: {
+    color: Colors.cyan[500],
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  sceneText: {
+    flex: 1,
+    color: "#FFFFFF",
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  sceneDuration: {
+    color: Colors.text.gray[400],
+    fontSize: 13,
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 16,
+  },
+  secondaryAction: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.2)",
+    minWidth: 60,
+    alignItems: "center",
+  },
+  secondaryActionText: {
+    color: Colors.text.gray[300],
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  approveButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: Colors.cyan[500],
+  },
+  approvedButton: {
+    backgroundColor: "rgba(34, 197, 94, 0.6)",
+  },
+  approveButtonText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "700",
+  },
+});
+
+export default ScriptStep;
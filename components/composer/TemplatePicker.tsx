@@ -0,0 +1,307 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { BlurView } from "expo-blur";
+import { Ionicons } from "@expo/vector-icons";
+
+import { Colors } from "@/constants/colors";
+import { usePromptTemplates } from "@/hooks/usePromptTemplates";
+import {
+  PromptTemplate,
+  extractPlaceholders,
+  formatPlaceholderLabel,
+  renderTemplate,
+} from "@/utils/promptTemplates";
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  /** Receives the compiled prompt text */
+  onApply: (prompt: string) => void;
+  onManage: () => void;
+};
+
+/**
+ * Lets the user pick a template and fill in its placeholders.
+ */
+export function TemplatePicker({ visible, onClose, onApply, onManage }: Props) {
+  const { templates, loading, refetch } = usePromptTemplates();
+  const [selected, setSelected] = useState<PromptTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  // Templates may have changed on the manage screen since the last open
+  useEffect(() => {
+    if (visible) {
+      refetch();
+    }
+  }, [visible, refetch]);
+
+  const placeholders = selected ? extractPlaceholders(selected.body) : [];
+  const missingValues = placeholders.some((name) => !values[name]?.trim());
+
+  const handleSelect = (template: PromptTemplate) => {
+    setSelected(template);
+    setValues({});
+  };
+
+  const handleClose = () => {
+    setSelected(null);
+    setValues({});
+    onClose();
+  };
+
+  const handleApply = () => {
+    if (!selected || missingValues) {
+      return;
+    }
+    onApply(renderTemplate(selected.body, values));
+    handleClose();
+  };
+
+  const renderList = () => (
+    <>
+      <Text style={styles.modalTitle}>Templates</Text>
+      {loading && templates.length === 0 ? (
+        <ActivityIndicator size="small" color={Colors.cyan[500]} />
+      ) : (
+        <ScrollView style={styles.list}>
+          {templates.map((template) => (
+            <TouchableOpacity
+              key={template.id}
+              onPress={() => handleSelect(template)}
+              style={styles.templateItem}
+              activeOpacity={0.7}
+            >
+              <View style={styles.templateHeader}>
+                <Text style={styles.templateTitle}>{template.title}</Text>
+                {template.built_in && (
+                  <Text style={styles.builtInBadge}>Built-in</Text>
+                )}
+              </View>
+              <Text style={styles.templateBody} numberOfLines={2}>
+                {template.body}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+      <View style={styles.modalActions}>
+        <TouchableOpacity
+          onPress={handleClose}
+          style={[styles.modalButton, styles.modalCancelButton]}
+        >
+          <Text style={styles.modalButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => {
+            handleClose();
+            onManage();
+          }}
+          style={[styles.modalButton, styles.modalCancelButton]}
+        >
+          <Text style={styles.modalButtonText}>Manage</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  const renderFields = (template: PromptTemplate) => (
+    <>
+      <View style={styles.fieldsHeader}>
+        <TouchableOpacity onPress={() => setSelected(null)} activeOpacity={0.7}>
+          <Ionicons name="chevron-back" size={22} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.fieldsTitle}>{template.title}</Text>
+      </View>
+      <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+        {placeholders.map((name) => (
+          <View key={name} style={styles.field}>
+            <Text style={styles.fieldLabel}>{formatPlaceholderLabel(name)}</Text>
+            <TextInput
+              style={styles.fieldInput}
+              value={values[name] ?? ""}
+              onChangeText={(text) =>
+                setValues((prev) => ({ ...prev, [name]: text }))
+              }
+              placeholderTextColor={Colors.text.gray[500]}
+            />
+          </View>
+        ))}
+        <Text style={styles.previewLabel}>Preview</Text>
+        <Text style={styles.previewText}>
+          {renderTemplate(template.body, values)}
+        </Text>
+      </ScrollView>
+      <View style={styles.modalActions}>
+        <TouchableOpacity
+          onPress={handleClose}
+          style={[styles.modalButton, styles.modalCancelButton]}
+        >
+          <Text style={styles.modalButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={handleApply}
+          disabled={missingValues}
+          style={[
+            styles.modalButton,
+            styles.modalSaveButton,
+            missingValues && styles.modalButtonDisabled,
+          ]}
+        >
+          <Text style={styles.modalButtonText}>Use template</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={handleClose}
+    >
+      <BlurView intensity={20} style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {selected ? renderFields(selected) : renderList()}
+        </View>
+      </BlurView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.7)",
+  },
+  modalContent: {
+    backgroundColor: "rgba(30, 30, 30, 0.95)",
+    borderRadius: 20,
+    padding: 24,
+    maxWidth: 400,
+    width: "90%",
+    maxHeight: "80%",
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+  },
+  modalTitle: {
+    color: "#FFFFFF",
+    fontSize: 20,
+    fontWeight: "700",
+    marginBottom: 16,
+    textAlign: "center",
+  },
+  list: {
+    flexGrow: 0,
+  },
+  templateItem: {
+    padding: 14,
+    marginBottom: 10,
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+  },
+  templateHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 4,
+  },
+  templateTitle: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  builtInBadge: {
+    color: Colors.cyan[500],
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  templateBody: {
+    color: Colors.text.gray[400],
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  fieldsHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 16,
+  },
+  fieldsTitle: {
+    color: "#FFFFFF",
+    fontSize: 20,
+    fontWeight: "700",
+  },
+  field: {
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    color: Colors.text.gray[300],
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 6,
+  },
+  fieldInput: {
+    backgroundColor: "rgba(60, 60, 60, 1.0)",
+    color: "#FFFFFF",
+    fontSize: 16,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  previewLabel: {
+    color: Colors.text.gray[400],
+    fontSize: 13,
+    fontWeight: "600",
+    marginTop: 4,
+    marginBottom: 6,
+  },
+  previewText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  modalActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 20,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  modalCancelButton: {
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.2)",
+  },
+  modalSaveButton: {
+    backgroundColor: Colors.cyan[500],
+  },
+  modalButtonDisabled: {
+    opacity: 0.5,
+  },
+  modalButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
+
+export default TemplatePicker;
@@ -0,0 +1,199 @@
+import React, { useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { Colors } from "@/constants/colors";
+import { useComposer } from "@/contexts/ComposerContext";
+import { useVoicesList } from "@/hooks/useVoicesList";
+import { useAudioPreview } from "@/hooks/useAudioPreview";
+
+export function VoiceStep() {
+  const { voice: selectedVoice, setVoice } = useComposer();
+  const { voices, loading } = useVoicesList();
+  const { playingId, togglePreview, stopAll } = useAudioPreview();
+
+  // Stop previews when leaving the step
+  useEffect(() => stopAll, [stopAll]);
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.cyan[500]} />
+        <Text style={styles.loadingText}>Loading voices...</Text>
+      </View>
+    );
+  }
+
+  if (voices.length === 0) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>No voices available</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      <Text style={styles.label}>Select a voice</Text>
+      {voices.map((voice) => (
+        <TouchableOpacity
+          key={voice.id}
+          style={[
+            styles.voiceItem,
+            selectedVoice === voice.id && styles.voiceItemSelected,
+          ]}
+          onPress={() => setVoice(voice.id)}
+          activeOpacity={0.7}
+        >
+          <TouchableOpacity
+            onPress={(e) => {
+              e.stopPropagation();
+              togglePreview(voice.id, voice.url);
+            }}
+            style={styles.voicePlayButton}
+            activeOpacity={0.8}
+          >
+            {playingId === voice.id ? (
+              <Ionicons name="pause" size={20} color="#FFFFFF" />
+            ) : (
+              <Ionicons name="play" size={20} color="#FFFFFF" />
+            )}
+          </TouchableOpacity>
+          <View style={styles.voiceInfo}>
+            <Text style={styles.voiceName}>{voice.displayName}</Text>
+            <View
+              style={[
+                styles.voiceGenderBadge,
+                voice.gender === "male"
+                  ? styles.voiceGenderMale
+                  : styles.voiceGenderFemale,
+              ]}
+            >
+              <Text
+                style={[
+                  styles.voiceGenderText,
+                  voice.gender === "male"
+                    ? styles.voiceGenderTextMale
+                    : styles.voiceGenderTextFemale,
+                ]}
+              >
+                {voice.gender === "male" ? "Male" : "Female"}
+              </Text>
+            </View>
+          </View>
+          <View
+            style={[
+              styles.voiceRadio,
+              selectedVoice === voice.id && styles.voiceRadioSelected,
+            ]}
+          >
+            {selectedVoice === voice.id && (
+              <View style={styles.voiceRadioInner} />
+            )}
+          </View>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    color: "#FFFFFF",
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 12,
+  },
+  loadingContainer: {
+    padding: 40,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  loadingText: {
+    color: Colors.text.gray[400],
+    fontSize: 16,
+    marginTop: 12,
+  },
+  voiceItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: "rgba(255, 255, 255, 0.1)",
+  },
+  voiceItemSelected: {
+    borderColor: Colors.cyan[500],
+    backgroundColor: "rgba(6, 182, 212, 0.1)",
+  },
+  voicePlayButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: Colors.cyan[500],
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 12,
+  },
+  voiceInfo: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  voiceName: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  voiceGenderBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  voiceGenderMale: {
+    backgroundColor: "rgba(59, 130, 246, 0.2)",
+  },
+  voiceGenderFemale: {
+    backgroundColor: "rgba(236, 72, 153, 0.2)",
+  },
+  voiceGenderText: {
+    fontSize: 12,
+    fontWeight: "500",
+  },
+  voiceGenderTextMale: {
+    color: "#93c5fd",
+  },
+  voiceGenderTextFemale: {
+    color: "#f9a8d4",
+  },
+  voiceRadio: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: "rgba(255, 255, 255, 0.4)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  voiceRadioSelected: {
+    borderColor: Colors.cyan[500],
+    backgroundColor: Colors.cyan[500],
+  },
+  voiceRadioInner: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#1a1a1a",
+  },
+});
+
+export default VoiceStep;
@@ -1,81 +1,41 @@
-import { SupabaseClient } from "@supabase/supabase-js";
-import Constants from "expo-constants";
+import type { VideoStatus } from "../utils/videoStatus";
+import type { VideoStage } from "../utils/videoProgress";
 
 export const PRICE_PER_VIDEO: number = 9.99;
-export const VIDEO_FETCH_CHUNK_SIZE = 5; // Number of videos to process concurrently
 export const SIGNED_URL_EXPIRES = 10800; // 3 hours in seconds
 export const VIDEOS_PER_PAGE = 10; // Number of videos to load per page
+export const VIDEOS_BUCKET = "32_seconds_videos"; // Storage bucket with rendered videos
+export const SIGNED_URL_BATCH_SIZE = 50; // Max paths per batch signing request
+
+export type AspectRatio = "9:16" | "1:1" | "16:9";
+
+// Generation settings chosen in the composer and stored with the video
+export interface GenerationOptions {
+  aspect_ratio: AspectRatio;
+  target_duration: number; // Seconds
+  caption_style: string; // Caption preset id
+  music_track_id: string | null; // null = no background music
+  language: string; // Output language code, e.g. "en"
+}
 
 export interface VideoRecord {
   id: string;
   user_id: string;
   prompt: string;
-  status: string;
+  voice: string | null; // voice_id used for narration
+  source_video_id: string | null; // Video this one was remixed from
+  retry_of_video_id: string | null; // Failed video this one retries
+  options: GenerationOptions | null;
+  status: VideoStatus;
+  stage: VideoStage | null; // Pipeline step while processing, from realtime updates
+  progress: number | null; // Percent of the pipeline done, 0-100
   bucket_path: string | null;
   signed_url: string | null;
-  signed_url_loading?: boolean;
   signed_url_created_at?: number; // Timestamp in milliseconds when signed URL was generated
   duration: number | null;
   created_at: string;
   completed_at: string | null;
   error_message: string | null;
+  refunded: boolean | null; // Set by the server once a failed video's charge is returned
+  is_favorite: boolean | null; // Starred by the user in the library
 }
-
-interface GetSignedUrlParams {
-  bucket: string;
-  path: string;
-  expires?: number;
-  filename?: string;
-  supabase: SupabaseClient;
-}
-
-export const getSignedUrlAndDownload = async function getSignedUrlAndDownload({
-  bucket,
-  path,
-  expires = SIGNED_URL_EXPIRES,
-  filename,
-  supabase,
-}: GetSignedUrlParams): Promise<string> {
-  const { data: sessionData } = await supabase.auth.getSession();
-  const accessToken = sessionData?.session?.access_token;
-
-  // Get Supabase URL from environment variables first
-  const supabaseUrl =
-    process.env.EXPO_PUBLIC_SUPABASE_URL ||
-    Constants.expoConfig?.extra?.supabaseUrl ||
-    "";
-
-  if (!supabaseUrl) {
-    throw new Error("Supabase URL not configured");
-  }
-
-  const endpoint = `${supabaseUrl.replace(
-    /^https?:\/\//,
-    "https://"
-  )}/functions/v1/smooth-handler`;
-
-  const requestBody = { bucket, path, expires, filename };
-
-  const res = await fetch(endpoint, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
-    },
-    body: JSON.stringify(requestBody),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text();
-    throw new Error(`Function error: ${res.status} ${txt}`);
-  }
-
-  const json = await res.json();
-
-  const signedUrl = json.url;
-  if (!signedUrl) {
-    throw new Error("No signed URL returned");
-  }
-
-  return signedUrl;
-};
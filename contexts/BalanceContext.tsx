@@ -0,0 +1,140 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  ReactNode,
+} from "react";
+import { supabase } from "../lib/supabase";
+import { useAuthContext } from "./AuthContext";
+import { RealtimeConnectionState, RecordSchema } from "../lib/realtimeChannel";
+import { useRealtimeTable } from "../hooks/useRealtimeTable";
+
+interface BalanceContextType {
+  balance: number | null;
+  loading: boolean;
+  /** When the balance was last read or pushed by the server, in milliseconds */
+  lastUpdatedAt: number | null;
+  connectionState: RealtimeConnectionState;
+  refetch: () => Promise<void>;
+}
+
+const BalanceContext = createContext<BalanceContextType | undefined>(
+  undefined
+);
+
+interface BalanceRecord {
+  id: string;
+  balance: number;
+}
+
+const BALANCE_RECORD_SCHEMA: RecordSchema<BalanceRecord> = {
+  id: "string",
+  balance: "number",
+};
+
+/**
+ * Owns the one `user:<id>:balance` subscription shared by every screen.
+ */
+export function BalanceProvider({ children }: { children: ReactNode }) {
+  const { user, loading: authLoading } = useAuthContext();
+  const [balance, setBalance] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [lastUpdatedAt, setLastUpdatedAt] = useState<number | null>(null);
+  const fetchingRef = useRef(false);
+
+  const fetchBalance = useCallback(async () => {
+    if (!user) {
+      setBalance(null);
+      setLoading(false);
+      fetchingRef.current = false;
+      return;
+    }
+
+    // Prevent duplicate concurrent fetches
+    if (fetchingRef.current) {
+      return;
+    }
+
+    try {
+      fetchingRef.current = true;
+      setLoading(true);
+
+      const { data, error: fetchError } = await supabase
+        .from("profiles")
+        .select("balance")
+        .eq("id", user.id)
+        .maybeSingle();
+
+      if (fetchError) {
+        setBalance(0);
+        return;
+      }
+
+      setBalance(data?.balance || 0);
+      setLastUpdatedAt(Date.now());
+    } catch {
+      setBalance(0);
+    } finally {
+      setLoading(false);
+      fetchingRef.current = false;
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id]); // Only depend on user.id, not the entire user object
+
+  useEffect(() => {
+    if (authLoading) {
+      return;
+    }
+
+    if (!user) {
+      setBalance(null);
+      setLastUpdatedAt(null);
+      setLoading(false);
+      return;
+    }
+
+    // Fetch balance immediately, don't wait for subscription
+    fetchBalance();
+  }, [fetchBalance, user, authLoading]);
+
+  const { connectionState } = useRealtimeTable<BalanceRecord>({
+    table: "balance",
+    schema: BALANCE_RECORD_SCHEMA,
+    logPrefix: "[Balance]",
+    onUpdate: (record) => {
+      setBalance(record.balance);
+      setLastUpdatedAt(Date.now());
+    },
+    onSubscribed: (reconnected) => {
+      // Balance updates may have been missed while disconnected
+      if (reconnected) {
+        fetchBalance();
+      }
+    },
+  });
+
+  return (
+    <BalanceContext.Provider
+      value={{
+        balance,
+        loading,
+        lastUpdatedAt,
+        connectionState,
+        refetch: fetchBalance,
+      }}
+    >
+      {children}
+    </BalanceContext.Provider>
+  );
+}
+
+export function useBalanceContext() {
+  const context = useContext(BalanceContext);
+  if (context === undefined) {
+    throw new Error("useBalanceContext must be used within a BalanceProvider");
+  }
+  return context;
+}
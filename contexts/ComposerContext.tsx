@@ -0,0 +1,268 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  ReactNode,
+} from "react";
+import * as Crypto from "expo-crypto";
+
+import { useAuthContext } from "./AuthContext";
+import { DraftContent, PromptDraft, useDrafts } from "./DraftsContext";
+import { GenerationOptions } from "../constants/constants";
+import { GenerationOptionsCatalog, VideoScript } from "../lib/edgeFunctions";
+import {
+  resolveGenerationOptions,
+  validateGenerationOptions,
+} from "../utils/generationOptions";
+
+export const COMPOSER_STEPS = [
+  "prompt",
+  "voice",
+  "options",
+  "script",
+  "review",
+] as const;
+export type ComposerStep = (typeof COMPOSER_STEPS)[number];
+
+export const PROMPT_MAX_LENGTH = 2000;
+const DRAFT_AUTOSAVE_DELAY_MS = 600;
+
+export interface ComposerState {
+  step: ComposerStep;
+  prompt: string;
+  voice: string | null;
+  sourceVideoId: string | null;
+  /** Only the options the user changed; the rest come from the catalog */
+  options: Partial<GenerationOptions>;
+  /** Optional script preview; only sent with the request once approved */
+  script: VideoScript | null;
+  scriptApproved: boolean;
+  /** Draft this composition is autosaved to, once it has content */
+  draftId: string | null;
+}
+
+interface ComposerContextType extends ComposerState {
+  setStep: (step: ComposerStep) => void;
+  setPrompt: (prompt: string) => void;
+  setVoice: (voice: string | null) => void;
+  setOption: <K extends keyof GenerationOptions>(
+    key: K,
+    value: GenerationOptions[K]
+  ) => void;
+  /** Replaces the previewed script; any change needs a new approval */
+  setScript: (script: VideoScript | null) => void;
+  approveScript: () => void;
+  /** Starts a fresh composition prefilled with the given values */
+  prefill: (values: Partial<Omit<ComposerState, "step">>) => void;
+  /** Continues editing a saved draft */
+  restoreDraft: (draft: PromptDraft) => void;
+  reset: () => void;
+}
+
+const INITIAL_STATE: ComposerState = {
+  step: "prompt",
+  prompt: "",
+  voice: null,
+  sourceVideoId: null,
+  options: {},
+  script: null,
+  scriptApproved: false,
+  draftId: null,
+};
+
+function draftContent(state: ComposerState): DraftContent {
+  return {
+    prompt: state.prompt,
+    voice: state.voice,
+    source_video_id: state.sourceVideoId,
+    options: state.options,
+  };
+}
+
+/**
+ * Returns a user-facing error if `step` is not complete yet, otherwise null.
+ */
+export function validateComposerStep(
+  step: ComposerStep,
+  state: ComposerState,
+  catalog: GenerationOptionsCatalog | null
+): string | null {
+  switch (step) {
+    case "prompt": {
+      const prompt = state.prompt.trim();
+      if (!prompt) {
+        return "Video prompt is required";
+      }
+      if (prompt.length > PROMPT_MAX_LENGTH) {
+        return `Prompt must be at most ${PROMPT_MAX_LENGTH} characters`;
+      }
+      return null;
+    }
+    case "voice":
+      return state.voice ? null : "Please select a voice";
+    case "options":
+      if (!catalog) {
+        return "Generation options are still loading";
+      }
+      return validateGenerationOptions(
+        resolveGenerationOptions(state.options, catalog),
+        catalog
+      );
+    case "script":
+      if (!state.script) {
+        return null;
+      }
+      if (!state.script.narration.trim()) {
+        return "The script cannot be empty";
+      }
+      return state.scriptApproved
+        ? null
+        : "Approve the script or discard the preview";
+    case "review":
+      return (
+        validateComposerStep("prompt", state, catalog) ??
+        validateComposerStep("voice", state, catalog) ??
+        validateComposerStep("options", state, catalog) ??
+        validateComposerStep("script", state, catalog)
+      );
+  }
+}
+
+const ComposerContext = createContext<ComposerContextType | undefined>(
+  undefined
+);
+
+/**
+ * Holds the in-progress composition so it survives leaving and
+ * reopening the create screen, and autosaves it as a draft.
+ */
+export function ComposerProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuthContext();
+  const { saveDraft } = useDrafts();
+  const [state, setState] = useState<ComposerState>(INITIAL_STATE);
+  const lastSavedRef = useRef<string | null>(null);
+  const userId = user?.id;
+
+  // A composition belongs to the account it was started in
+  useEffect(() => {
+    setState(INITIAL_STATE);
+    lastSavedRef.current = null;
+  }, [userId]);
+
+  // Autosave shortly after the user stops typing
+  useEffect(() => {
+    const content = draftContent(state);
+    const serialized = JSON.stringify(content);
+    if (serialized === lastSavedRef.current) {
+      return;
+    }
+    if (!state.draftId && !state.prompt.trim()) {
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      const draftId = state.draftId ?? Crypto.randomUUID();
+      if (!state.draftId) {
+        setState((prev) => ({ ...prev, draftId }));
+      }
+      lastSavedRef.current = serialized;
+      saveDraft(draftId, content);
+    }, DRAFT_AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [state, saveDraft]);
+
+  const setStep = useCallback((step: ComposerStep) => {
+    setState((prev) => ({ ...prev, step }));
+  }, []);
+
+  // A previewed script no longer matches once the prompt or options change
+  const setPrompt = useCallback((prompt: string) => {
+    setState((prev) => ({
+      ...prev,
+      prompt,
+      script: null,
+      scriptApproved: false,
+    }));
+  }, []);
+
+  const setVoice = useCallback((voice: string | null) => {
+    setState((prev) => ({ ...prev, voice }));
+  }, []);
+
+  const setOption = useCallback(
+    <K extends keyof GenerationOptions>(key: K, value: GenerationOptions[K]) => {
+      setState((prev) => ({
+        ...prev,
+        options: { ...prev.options, [key]: value },
+        script: null,
+        scriptApproved: false,
+      }));
+    },
+    []
+  );
+
+  const setScript = useCallback((script: VideoScript | null) => {
+    setState((prev) => ({ ...prev, script, scriptApproved: false }));
+  }, []);
+
+  const approveScript = useCallback(() => {
+    setState((prev) => ({ ...prev, scriptApproved: prev.script !== null }));
+  }, []);
+
+  const prefill = useCallback(
+    (values: Partial<Omit<ComposerState, "step">>) => {
+      setState({ ...INITIAL_STATE, ...values });
+    },
+    []
+  );
+
+  const restoreDraft = useCallback((draft: PromptDraft) => {
+    const restored: ComposerState = {
+      ...INITIAL_STATE,
+      prompt: draft.prompt,
+      voice: draft.voice,
+      sourceVideoId: draft.source_video_id,
+      options: draft.options,
+      draftId: draft.id,
+    };
+    // Restoring alone should not bump the draft's updated time
+    lastSavedRef.current = JSON.stringify(draftContent(restored));
+    setState(restored);
+  }, []);
+
+  const reset = useCallback(() => {
+    lastSavedRef.current = null;
+    setState(INITIAL_STATE);
+  }, []);
+
+  return (
+    <ComposerContext.Provider
+      value={{
+        ...state,
+        setStep,
+        setPrompt,
+        setVoice,
+        setOption,
+        setScript,
+        approveScript,
+        prefill,
+        restoreDraft,
+        reset,
+      }}
+    >
+      {children}
+    </ComposerContext.Provider>
+  );
+}
+
+export function useComposer() {
+  const context = useContext(ComposerContext);
+  if (context === undefined) {
+    throw new Error("useComposer must be used within a ComposerProvider");
+  }
+  return context;
+}
@@ -0,0 +1,107 @@
+import React, { createContext, useContext, useCallback, ReactNode } from "react";
+import * as Crypto from "expo-crypto";
+
+import { usePersistentUserState } from "../hooks/usePersistentUserState";
+import { GenerationOptions } from "../constants/constants";
+
+const DRAFTS_STORAGE_KEY_PREFIX = "text2reel.promptDrafts";
+
+export interface PromptDraft {
+  id: string;
+  prompt: string;
+  voice: string | null;
+  source_video_id: string | null;
+  options: Partial<GenerationOptions>;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DraftContent = Omit<PromptDraft, "id" | "created_at" | "updated_at">;
+
+interface DraftsContextType {
+  /** Most recently updated first */
+  drafts: PromptDraft[];
+  /** False until the stored drafts for the current user are loaded */
+  hydrated: boolean;
+  saveDraft: (id: string, content: DraftContent) => void;
+  deleteDraft: (id: string) => void;
+  duplicateDraft: (id: string) => void;
+}
+
+const DraftsContext = createContext<DraftsContextType | undefined>(undefined);
+
+function sortByUpdated(drafts: PromptDraft[]) {
+  return [...drafts].sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+}
+
+const NO_DRAFTS: PromptDraft[] = [];
+
+function parseStoredDrafts(raw: string) {
+  return sortByUpdated(JSON.parse(raw) as PromptDraft[]);
+}
+
+/**
+ * Prompt drafts persisted per user, so unfinished compositions survive
+ * closing the create screen and restarting the app.
+ */
+export function DraftsProvider({ children }: { children: ReactNode }) {
+  const [drafts, setDrafts, hydrated] = usePersistentUserState(
+    DRAFTS_STORAGE_KEY_PREFIX,
+    NO_DRAFTS,
+    parseStoredDrafts
+  );
+
+  const saveDraft = useCallback((id: string, content: DraftContent) => {
+    const now = new Date().toISOString();
+    setDrafts((prev) => {
+      const existing = prev.find((draft) => draft.id === id);
+      const draft: PromptDraft = {
+        ...content,
+        id,
+        created_at: existing?.created_at ?? now,
+        updated_at: now,
+      };
+      return sortByUpdated([
+        draft,
+        ...prev.filter((item) => item.id !== id),
+      ]);
+    });
+  }, []);
+
+  const deleteDraft = useCallback((id: string) => {
+    setDrafts((prev) => prev.filter((draft) => draft.id !== id));
+  }, []);
+
+  const duplicateDraft = useCallback((id: string) => {
+    const now = new Date().toISOString();
+    setDrafts((prev) => {
+      const original = prev.find((draft) => draft.id === id);
+      if (!original) {
+        return prev;
+      }
+      const copy: PromptDraft = {
+        ...original,
+        id: Crypto.randomUUID(),
+        created_at: now,
+        updated_at: now,
+      };
+      return [copy, ...prev];
+    });
+  }, []);
+
+  return (
+    <DraftsContext.Provider
+      value={{ drafts, hydrated, saveDraft, deleteDraft, duplicateDraft }}
+    >
+      {children}
+    </DraftsContext.Provider>
+  );
+}
+
+export function useDrafts() {
+  const context = useContext(DraftsContext);
+  if (context === undefined) {
+    throw new Error("useDrafts must be used within a DraftsProvider");
+  }
+  return context;
+}
@@ -0,0 +1,330 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+  ReactNode,
+} from "react";
+import * as Crypto from "expo-crypto";
+
+import { useAuthContext } from "./AuthContext";
+import {
+  useVideoContext,
+  useVideoSelector,
+  useVideoStore,
+} from "./VideoContext";
+import { VideoStoreState, shallowEqualArrays } from "../lib/videoStore";
+import { GenerationOptions, PRICE_PER_VIDEO } from "../constants/constants";
+import { VideoScript } from "../lib/edgeFunctions";
+import { submitVideoRequest } from "../utils/videoSubmission";
+import { usePersistentUserState } from "../hooks/usePersistentUserState";
+
+const QUEUE_STORAGE_KEY_PREFIX = "text2reel.generationQueue";
+// How long to wait for the INSERT broadcast of a submitted item before
+// the queue is allowed to move on without it
+const AWAIT_INSERT_TIMEOUT_MS = 60000;
+
+export interface QueuedPrompt {
+  id: string;
+  prompt: string;
+  voice: string | null;
+  source_video_id?: string | null;
+  /** Failed video this item retries */
+  retry_of_video_id?: string | null;
+  options?: GenerationOptions | null;
+  /** Approved script preview, if the user reviewed one */
+  script?: VideoScript | null;
+  created_at: string;
+  /** Last submission error, if the item could not be sent */
+  error?: string | null;
+}
+
+interface GenerationQueueContextType {
+  queue: QueuedPrompt[];
+  /** Balance needed to generate every waiting item */
+  totalCost: number;
+  submitting: boolean;
+  enqueue: (
+    item: Pick<
+      QueuedPrompt,
+      | "prompt"
+      | "voice"
+      | "source_video_id"
+      | "retry_of_video_id"
+      | "options"
+      | "script"
+    >
+  ) => void;
+  updateItem: (
+    id: string,
+    changes: Partial<Pick<QueuedPrompt, "prompt" | "voice">>
+  ) => void;
+  removeItem: (id: string) => void;
+  moveItem: (id: string, direction: "up" | "down") => void;
+  retryItem: (id: string) => void;
+  /** Whether a new request should wait in the queue instead of being sent */
+  shouldQueue: boolean;
+}
+
+const GenerationQueueContext = createContext<
+  GenerationQueueContextType | undefined
+>(undefined);
+
+/** Ids of the queued and processing videos, sorted, ignoring list filters */
+function selectActiveIds(state: VideoStoreState) {
+  return Object.keys(state.active).sort();
+}
+
+export function GenerationQueueProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuthContext();
+  const { loading: videosLoading } = useVideoContext();
+  const activeIds = useVideoSelector(selectActiveIds, shallowEqualArrays);
+  const store = useVideoStore();
+  const [queue, setQueue, hydrated] = usePersistentUserState<
+    QueuedPrompt[]
+  >(QUEUE_STORAGE_KEY_PREFIX, []);
+  const [submitting, setSubmitting] = useState(false);
+  const submittingRef = useRef(false);
+  const startedRef = useRef(false);
+  const previousActiveIdsRef = useRef<string[]>([]);
+  const awaitingInsertRef = useRef<{
+    videoId: string | null;
+    since: number;
+  } | null>(null);
+  const awaitTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const submitNextRef = useRef<() => void>(() => {});
+
+  const stopAwaitingInsert = useCallback(() => {
+    awaitingInsertRef.current = null;
+    if (awaitTimerRef.current) {
+      clearTimeout(awaitTimerRef.current);
+      awaitTimerRef.current = null;
+    }
+  }, []);
+
+  // Each user's queue starts over, without the previous user's wait
+  useEffect(() => {
+    startedRef.current = false;
+    return stopAwaitingInsert;
+  }, [user?.id, stopAwaitingInsert]);
+
+  const hasActiveVideo = activeIds.length > 0;
+
+  const submitNext = useCallback(async () => {
+    if (!user || submittingRef.current) {
+      return;
+    }
+
+    // The last submitted video has not shown up in the list yet
+    const awaiting = awaitingInsertRef.current;
+    if (awaiting && Date.now() - awaiting.since < AWAIT_INSERT_TIMEOUT_MS) {
+      return;
+    }
+    stopAwaitingInsert();
+
+    const next = queue[0];
+    if (!next || next.error) {
+      return;
+    }
+
+    submittingRef.current = true;
+    setSubmitting(true);
+
+    try {
+      const result = await submitVideoRequest(user.id, {
+        prompt: next.prompt,
+        ...(next.voice ? { voice: next.voice } : {}),
+        ...(next.source_video_id
+          ? { source_video_id: next.source_video_id }
+          : {}),
+        ...(next.retry_of_video_id
+          ? { retry_of_video_id: next.retry_of_video_id }
+          : {}),
+        ...(next.options ? { options: next.options } : {}),
+        ...(next.script ? { script: next.script } : {}),
+      });
+      // A duplicate can point at a video that is already loaded; its
+      // status changes drive the queue, so there is nothing to wait for
+      const { active, byId } = store.getState();
+      const known =
+        !!result.videoId &&
+        (result.videoId in active || result.videoId in byId);
+      if (!known) {
+        awaitingInsertRef.current = {
+          videoId: result.videoId,
+          since: Date.now(),
+        };
+        // Move on without the INSERT if it never arrives
+        awaitTimerRef.current = setTimeout(() => {
+          stopAwaitingInsert();
+          if (Object.keys(store.getState().active).length === 0) {
+            submitNextRef.current();
+          }
+        }, AWAIT_INSERT_TIMEOUT_MS);
+      }
+      setQueue((prev) => prev.filter((item) => item.id !== next.id));
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to generate video";
+      setQueue((prev) =>
+        prev.map((item) =>
+          item.id === next.id ? { ...item, error: message } : item
+        )
+      );
+    } finally {
+      submittingRef.current = false;
+      setSubmitting(false);
+    }
+  }, [user, queue, store, stopAwaitingInsert]);
+  submitNextRef.current = submitNext;
+
+  // Start the head of the queue when the app opens with nothing generating
+  useEffect(() => {
+    if (!hydrated || videosLoading || startedRef.current) {
+      return;
+    }
+    startedRef.current = true;
+
+    if (!hasActiveVideo && queue.length > 0) {
+      submitNext();
+    }
+  }, [hydrated, videosLoading, hasActiveVideo, queue.length, submitNext]);
+
+  // Submit the next item when the current video settles: it completes,
+  // fails, is cancelled or is deleted, and so leaves the active set
+  useEffect(() => {
+    const settled = previousActiveIdsRef.current.some(
+      (id) => !activeIds.includes(id)
+    );
+    previousActiveIdsRef.current = activeIds;
+
+    // The submitted video showed up, or something else is generating
+    if (awaitingInsertRef.current && hasActiveVideo) {
+      stopAwaitingInsert();
+    }
+
+    if (settled && !hasActiveVideo) {
+      submitNext();
+    }
+  }, [activeIds, hasActiveVideo, submitNext, stopAwaitingInsert]);
+
+  const enqueue = useCallback(
+    (
+      request: Pick<
+        QueuedPrompt,
+        | "prompt"
+        | "voice"
+        | "source_video_id"
+        | "retry_of_video_id"
+        | "options"
+        | "script"
+      >
+    ) => {
+      const item: QueuedPrompt = {
+        ...request,
+        id: Crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+        error: null,
+      };
+      setQueue((prev) => [...prev, item]);
+    },
+    []
+  );
+
+  const updateItem = useCallback(
+    (id: string, changes: Partial<Pick<QueuedPrompt, "prompt" | "voice">>) => {
+      setQueue((prev) =>
+        prev.map((item) => {
+          if (item.id !== id) return item;
+          // An approved script was written for the old prompt
+          const scriptChanged =
+            changes.prompt !== undefined && changes.prompt !== item.prompt;
+          return {
+            ...item,
+            ...changes,
+            ...(scriptChanged ? { script: null } : {}),
+            error: null,
+          };
+        })
+      );
+    },
+    []
+  );
+
+  const removeItem = useCallback((id: string) => {
+    setQueue((prev) => prev.filter((item) => item.id !== id));
+  }, []);
+
+  const moveItem = useCallback((id: string, direction: "up" | "down") => {
+    setQueue((prev) => {
+      const index = prev.findIndex((item) => item.id === id);
+      const target = direction === "up" ? index - 1 : index + 1;
+      if (index === -1 || target < 0 || target >= prev.length) {
+        return prev;
+      }
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  const retryItem = useCallback((id: string) => {
+    setQueue((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, error: null } : item))
+    );
+  }, []);
+
+  // Nothing is generating and the head changed (retried, edited, or the
+  // failing item before it was cancelled) - try sending it
+  const head = queue[0];
+  useEffect(() => {
+    if (startedRef.current && head && !head.error && !hasActiveVideo) {
+      submitNext();
+    }
+    // Only react to changes of the head item itself
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [head?.id, head?.error]);
+
+  const value = useMemo(
+    () => ({
+      queue,
+      totalCost: queue.length * PRICE_PER_VIDEO,
+      submitting,
+      enqueue,
+      updateItem,
+      removeItem,
+      moveItem,
+      retryItem,
+      shouldQueue: hasActiveVideo || submitting || queue.length > 0,
+    }),
+    [
+      queue,
+      submitting,
+      enqueue,
+      updateItem,
+      removeItem,
+      moveItem,
+      retryItem,
+      hasActiveVideo,
+    ]
+  );
+
+  return (
+    <GenerationQueueContext.Provider value={value}>
+      {children}
+    </GenerationQueueContext.Provider>
+  );
+}
+
+export function useGenerationQueue() {
+  const context = useContext(GenerationQueueContext);
+  if (context === undefined) {
+    throw new Error(
+      "useGenerationQueue must be used within a GenerationQueueProvider"
+    );
+  }
+  return context;
+}
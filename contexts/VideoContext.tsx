@@ -4,98 +4,357 @@ import React, {
   useState,
   useEffect,
   useCallback,
+  useMemo,
   useRef,
+  useSyncExternalStore,
   ReactNode,
 } from "react";
+import { AppState } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo from "@react-native-community/netinfo";
 import { supabase } from "../lib/supabase";
 import { useAuthContext } from "./AuthContext";
+import { VideoRecord, VIDEOS_PER_PAGE } from "../constants/constants";
+import { cancelVideo as cancelVideoRequest } from "../lib/edgeFunctions";
+import { signedUrlManager } from "../lib/signedUrlManager";
 import {
-  VideoRecord,
-  VIDEOS_PER_PAGE,
-  VIDEO_FETCH_CHUNK_SIZE,
-  SIGNED_URL_EXPIRES,
-  getSignedUrlAndDownload,
-} from "../constants/constants";
-
-interface VideoContextType {
-  videos: VideoRecord[];
-  loading: boolean;
-  loadingMore: boolean;
-  hasMore: boolean;
-  error: string | null;
+  RealtimeConnectionState,
+  RecordSchema,
+} from "../lib/realtimeChannel";
+import { useRealtimeTable } from "../hooks/useRealtimeTable";
+import { usePersistentUserState } from "../hooks/usePersistentUserState";
+import {
+  VIDEO_STATUSES,
+  VIDEO_STATUS_INFO,
+  canTransition,
+  isVideoStatus,
+} from "../utils/videoStatus";
+import {
+  DEFAULT_VIDEO_FILTERS,
+  SORT_OPTIONS,
+  VideoFilters,
+  VideoSort,
+  compareVideos,
+  dateRangeStart,
+  matchesVideoFilters,
+} from "../utils/videoFilters";
+import { stageIndex } from "../utils/videoProgress";
+import { loadCachedVideos, saveCachedVideos } from "../utils/videoCache";
+import {
+  VideoStore,
+  VideoStoreState,
+  shallowEqualArrays,
+} from "../lib/videoStore";
+
+interface VideoActions {
   loadMore: () => Promise<void>;
   deleteVideo: (videoId: string) => Promise<void>;
+  /**
+   * Cancels a queued video; resolves with the refunded amount, or null
+   * when the server didn't report one
+   */
+  cancelVideo: (videoId: string) => Promise<number | null>;
+  /** Returns a URL that is not about to expire, signing one if needed */
   refreshVideoSignedUrl: (videoId: string) => Promise<string>;
+  /** Signs every loaded completed video whose URL is missing or expiring */
+  refreshSignedUrls: () => Promise<void>;
   refetch: () => Promise<void>;
+  /** Stars or unstars a video, reverting if the server rejects it */
+  toggleFavorite: (videoId: string) => Promise<void>;
+  /**
+   * One page of videos whose prompt contains `query`, across the whole
+   * library. Results stay selectable by id until the next first page or
+   * `clearSearchResults`.
+   */
+  searchVideos: (
+    query: string,
+    cursor: PageCursor | null,
+    signal?: AbortSignal
+  ) => Promise<VideoRecord[]>;
+  /** Forgets the search results once the search is closed */
+  clearSearchResults: () => void;
+}
+
+/**
+ * Videos live in `store` and are read through the selector hooks below,
+ * so a change to one video doesn't re-render every consumer.
+ */
+interface VideoContextType extends VideoActions {
+  store: VideoStore;
+  actions: VideoActions;
+  loading: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  error: string | null;
+  /** True while showing cached data the server has not confirmed yet */
+  isStale: boolean;
+  /** When the list was last loaded from the server, in milliseconds */
+  lastSyncedAt: number | null;
+  /** State of the realtime subscription that keeps the list live */
+  connectionState: RealtimeConnectionState;
+  /** Applied to the paginated list on the server; persisted per user */
+  filters: VideoFilters;
+  sort: VideoSort;
+  setFilters: (filters: VideoFilters) => void;
+  setSort: (sort: VideoSort) => void;
 }
 
 const VideoContext = createContext<VideoContextType | undefined>(undefined);
 
+// The parts that never change with loading state, for the selector hooks
+const VideoStoreContext = createContext<
+  Pick<VideoContextType, "store" | "actions"> | undefined
+>(undefined);
+
+// Position after the last row of the previous page, in (created_at, id) order
+export type PageCursor = Pick<VideoRecord, "created_at" | "id">;
+
+/** PostgREST filter for rows after `cursor` in (created_at, id) DESC order */
+function afterCursorFilter(cursor: PageCursor): string {
+  return `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`;
+}
+
+// The list can also be sorted by duration, so its cursor keeps that too
+type ListCursor = Pick<VideoRecord, "created_at" | "id" | "duration">;
+
+/** PostgREST filter for rows after `cursor` in the order of `sort` */
+function afterListCursorFilter(cursor: ListCursor, sort: VideoSort): string {
+  const { created_at, id, duration } = cursor;
+  switch (sort) {
+    case "newest":
+      return afterCursorFilter(cursor);
+    case "oldest":
+      return `created_at.gt."${created_at}",and(created_at.eq."${created_at}",id.gt.${id})`;
+    case "longest":
+      // Nulls sort last, so a null cursor only has null rows after it
+      return duration === null
+        ? `and(duration.is.null,id.lt.${id})`
+        : `duration.lt.${duration},and(duration.eq.${duration},id.lt.${id}),duration.is.null`;
+  }
+}
+
+/** Escapes the wildcards of an ilike pattern */
+function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+const VIDEO_COLUMNS =
+  "id, user_id, prompt, voice, source_video_id, retry_of_video_id, options, status, stage, progress, bucket_path, signed_url, duration, created_at, completed_at, error_message, refunded, is_favorite";
+
+// Columns the realtime handlers rely on
+const VIDEO_RECORD_SCHEMA: RecordSchema<VideoRecord> = {
+  id: "string",
+  user_id: "string",
+  // Statuses newer than this build pass through; `canTransition` and
+  // `getVideoStatusInfo` handle them
+  status: "string",
+  stage: "string?",
+  progress: "number?",
+  prompt: "string?",
+  voice: "string?",
+  source_video_id: "string?",
+  retry_of_video_id: "string?",
+  options: "object?",
+  bucket_path: "string?",
+  duration: "number?",
+  created_at: "string?",
+  completed_at: "string?",
+  error_message: "string?",
+  refunded: "boolean?",
+  is_favorite: "boolean?",
+};
+
+const VIDEO_FILTERS_STORAGE_KEY_PREFIX = "text2reel.videoFilters";
+
+interface StoredVideoFilters {
+  filters: VideoFilters;
+  sort: VideoSort;
+}
+
+const DEFAULT_LIST_QUERY: StoredVideoFilters = {
+  filters: DEFAULT_VIDEO_FILTERS,
+  sort: "newest",
+};
+
+/** Saved filters merged over the defaults, dropping unknown values */
+function parseStoredFilters(raw: string): StoredVideoFilters {
+  const stored = JSON.parse(raw) as Partial<StoredVideoFilters>;
+  const filters = { ...DEFAULT_VIDEO_FILTERS, ...stored.filters };
+  return {
+    filters: { ...filters, statuses: filters.statuses.filter(isVideoStatus) },
+    sort: SORT_OPTIONS.some((option) => option.id === stored.sort)
+      ? stored.sort!
+      : "newest",
+  };
+}
+
+/**
+ * Adds videos created after the list was loaded. They are the newest
+ * videos, so with other sorts they only belong in a fully loaded list;
+ * otherwise a later page brings them in.
+ */
+function insertCreatedVideos(
+  list: VideoRecord[],
+  created: VideoRecord[],
+  sort: VideoSort,
+  fullyLoaded: boolean
+): VideoRecord[] {
+  if (created.length === 0) {
+    return list;
+  }
+  if (sort === "newest") {
+    return [...created.sort((a, b) => compareVideos(a, b, sort)), ...list];
+  }
+  if (!fullyLoaded) {
+    return list;
+  }
+  return [...list, ...created].sort((a, b) => compareVideos(a, b, sort));
+}
+
+const ACTIVE_STATUSES = VIDEO_STATUSES.filter(
+  (status) => VIDEO_STATUS_INFO[status].active
+);
+
+// Progress broadcasts and URL refreshes change the store often; the
+// cache only needs the latest state every few seconds
+const CACHE_SAVE_INTERVAL_MS = 3000;
+
+// Look back a little further than the last event to absorb clock skew
+const MISSED_CHANGES_MARGIN_MS = 60 * 1000; // 1 minute
+
+/**
+ * Attaches the signed URL manager's current URL. URLs stored on the row
+ * have an unknown age, so they are never used directly.
+ */
+function withManagedSignedUrl(video: VideoRecord): VideoRecord {
+  const entry =
+    video.status === "completed" && video.bucket_path
+      ? signedUrlManager.getEntry(video.bucket_path)
+      : undefined;
+
+  return {
+    ...video,
+    signed_url: entry?.url ?? null,
+    signed_url_created_at: entry?.createdAt,
+  };
+}
+
+/**
+ * Merges a realtime change into a video. Changes that would move the
+ * status backwards, such as a late `processing` after `completed`, are
+ * stale and dropped.
+ */
+function applyRealtimeChange(video: VideoRecord, record: VideoRecord) {
+  if (!canTransition(video.status, record.status)) {
+    console.warn(
+      `[VideoContext] Ignoring stale update for video ${video.id}: ${video.status} -> ${record.status}`
+    );
+    return video;
+  }
+  // Progress events can arrive out of order too; keep the furthest one
+  if (
+    record.status === video.status &&
+    (stageIndex(record.stage) < stageIndex(video.stage) ||
+      (record.stage === video.stage &&
+        (record.progress ?? 0) < (video.progress ?? 0)))
+  ) {
+    const { stage: _stage, progress: _progress, ...rest } = record;
+    return withManagedSignedUrl({ ...video, ...rest });
+  }
+  return withManagedSignedUrl({ ...video, ...record });
+}
+
+/**
+ * Signs the completed videos in one batch request. The manager's
+ * listener writes the URLs back into the list.
+ */
+async function signVideosInBatch(videos: VideoRecord[]) {
+  const items = videos
+    .filter((video) => video.status === "completed" && video.bucket_path)
+    .map((video) => ({ path: video.bucket_path!, filename: video.id }));
+
+  const results = await signedUrlManager.ensureMany(items);
+  const failed = results.filter((result) => result.error);
+  if (failed.length > 0) {
+    console.warn(
+      `[VideoContext] Failed to sign ${failed.length} of ${results.length} video URLs:`,
+      failed
+    );
+  }
+}
+
 export function VideoProvider({ children }: { children: ReactNode }) {
   const { user, loading: authLoading } = useAuthContext();
-  const [videos, setVideos] = useState<VideoRecord[]>([]);
+  const [store] = useState(() => new VideoStore());
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(true);
-  const offsetRef = useRef(0);
-
-  // Helper function to process videos and get signed URLs
-  const processVideosWithSignedUrls = async (
-    videosArray: VideoRecord[]
-  ): Promise<VideoRecord[]> => {
-    const updatedVideos = [];
-
-    // Process videos in chunks to limit concurrent requests
-    for (let i = 0; i < videosArray.length; i += VIDEO_FETCH_CHUNK_SIZE) {
-      const chunk = videosArray.slice(i, i + VIDEO_FETCH_CHUNK_SIZE);
-
-      const chunkResults = await Promise.all(
-        chunk.map(async (video) => {
-          try {
-            // Only generate signed URL if video is completed
-            if (video.status === "completed" && video.bucket_path) {
-              const signedUrl = await getSignedUrlAndDownload({
-                bucket: "32_seconds_videos",
-                path: video.bucket_path,
-                expires: SIGNED_URL_EXPIRES,
-                filename: video.id,
-                supabase,
-              });
-
-              return {
-                ...video,
-                signed_url: signedUrl,
-                signed_url_loading: false,
-                signed_url_created_at: Date.now(),
-              };
-            } else {
-              return {
-                ...video,
-                signed_url: null,
-                signed_url_loading: false,
-                signed_url_created_at: undefined,
-              };
-            }
-          } catch (err) {
-            console.error(
-              `[VideoContext] ❌ Failed to get signed url for video ${video?.id}:`,
-              err
-            );
-            return {
-              ...video,
-              signed_url: video.signed_url ?? null,
-              signed_url_loading: false,
-            };
-          }
-        })
-      );
+  const [isStale, setIsStale] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [listQuery, setListQuery] = usePersistentUserState(
+    VIDEO_FILTERS_STORAGE_KEY_PREFIX,
+    DEFAULT_LIST_QUERY,
+    parseStoredFilters
+  );
+  const { filters, sort } = listQuery;
+  const setFilters = useCallback(
+    (next: VideoFilters) =>
+      setListQuery((prev) => ({ ...prev, filters: next })),
+    [setListQuery]
+  );
+  const setSort = useCallback(
+    (next: VideoSort) => setListQuery((prev) => ({ ...prev, sort: next })),
+    [setListQuery]
+  );
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+  const sortRef = useRef(sort);
+  sortRef.current = sort;
+  const hasMoreRef = useRef(hasMore);
+  hasMoreRef.current = hasMore;
+  // Read by `loadMore` so the actions keep their identity
+  const loadingRef = useRef(loading);
+  loadingRef.current = loading;
+  const loadingMoreRef = useRef(loadingMore);
+  loadingMoreRef.current = loadingMore;
+  // Bumped by every reset so pages of an older query are dropped
+  const fetchIdRef = useRef(0);
+  const cursorRef = useRef<ListCursor | null>(null);
+  // When the list was last known to match the server, in milliseconds
+  const lastEventAtRef = useRef<number | null>(null);
+  const hasSyncedRef = useRef(false);
+  const isStaleRef = useRef(false);
+  isStaleRef.current = isStale;
 
-      updatedVideos.push(...chunkResults);
+  /**
+   * Loads every queued or processing video, ignoring the list filters,
+   * so the active set is complete even when the list hides them.
+   */
+  const fetchActiveVideos = useCallback(async () => {
+    if (!user) {
+      return;
     }
 
-    return updatedVideos;
-  };
+    const requestedAt = Date.now();
+    const { data, error: activeError } = await supabase
+      .from("videos")
+      .select("id, status")
+      .eq("user_id", user.id)
+      .in("status", ACTIVE_STATUSES);
+
+    if (activeError) {
+      console.error(
+        "[VideoContext] Error fetching active videos:",
+        activeError
+      );
+      return;
+    }
+    store.setActive(
+      Object.fromEntries((data ?? []).map((row) => [row.id, row.status])),
+      requestedAt
+    );
+  }, [user, store]);
 
   const fetchVideos = useCallback(
     async (reset = true) => {
@@ -104,34 +363,77 @@ export function VideoProvider({ children }: { children: ReactNode }) {
         return;
       }
 
+      const fetchId = reset ? ++fetchIdRef.current : fetchIdRef.current;
+      const isCurrent = () => fetchId === fetchIdRef.current;
+      // Loaded alongside the first page, so `loading` covers both
+      const activeRequest = reset ? fetchActiveVideos() : Promise.resolve();
+
       try {
         if (reset) {
           setLoading(true);
-          offsetRef.current = 0;
+          lastEventAtRef.current = Date.now();
+          cursorRef.current = null;
           setHasMore(true);
         } else {
           setLoadingMore(true);
         }
         setError(null);
 
-        const from = reset ? 0 : offsetRef.current;
-        const to = from + VIDEOS_PER_PAGE - 1;
+        const cursor = reset ? null : cursorRef.current;
+        const { statuses, dateRange, voice, favoritesOnly } =
+          filtersRef.current;
+        const listSort = sortRef.current;
 
-        // Fetch videos ordered by created_at DESC with pagination
-        const { data, error: fetchError } = await supabase
+        // Fetch videos in the order of the selected sort, with id as the
+        // tie-breaker. Paging by cursor instead of offset keeps pages
+        // stable while realtime events add or remove videos.
+        let query = supabase
           .from("videos")
-          .select(
-            "id, user_id, prompt, status, bucket_path, signed_url, duration, created_at, completed_at, error_message"
-          )
-          .eq("user_id", user.id)
-          .order("created_at", { ascending: false })
-          .order("id", { ascending: false })
-          .range(from, to);
+          .select(VIDEO_COLUMNS)
+          .eq("user_id", user.id);
+
+        if (statuses.length > 0) {
+          query = query.in("status", statuses);
+        }
+        const since = dateRangeStart(dateRange);
+        if (since) {
+          query = query.gte("created_at", since.toISOString());
+        }
+        if (voice) {
+          query = query.eq("voice", voice);
+        }
+        if (favoritesOnly) {
+          query = query.eq("is_favorite", true);
+        }
+        if (cursor) {
+          query = query.or(afterListCursorFilter(cursor, listSort));
+        }
+
+        const ascending = listSort === "oldest";
+        const ordered =
+          listSort === "longest"
+            ? query
+                .order("duration", { ascending: false, nullsFirst: false })
+                .order("id", { ascending: false })
+            : query
+                .order("created_at", { ascending })
+                .order("id", { ascending });
+
+        const { data, error: fetchError } = await ordered.limit(
+          VIDEOS_PER_PAGE
+        );
+        await activeRequest;
+
+        // Filters or sort changed while this page was loading
+        if (!isCurrent()) {
+          return;
+        }
 
         if (fetchError) {
           console.error("[VideoContext] Error fetching videos:", fetchError);
           setError(fetchError.message);
           if (reset) {
+            setIsStale(true);
             setLoading(false);
           } else {
             setLoadingMore(false);
@@ -146,394 +448,411 @@ export function VideoProvider({ children }: { children: ReactNode }) {
           setHasMore(false);
         }
 
-        // Process videos to get signed URLs
-        const processedVideos = await processVideosWithSignedUrls(
-          videosArray as VideoRecord[]
+        const lastRow = videosArray[videosArray.length - 1];
+        if (lastRow) {
+          cursorRef.current = {
+            created_at: lastRow.created_at,
+            id: lastRow.id,
+            duration: lastRow.duration,
+          };
+        }
+
+        const processedVideos = (videosArray as VideoRecord[]).map(
+          withManagedSignedUrl
         );
 
+        // Sign the whole page in one round trip instead of per row
+        signVideosInBatch(processedVideos);
+
         if (reset) {
-          setVideos(processedVideos);
-          offsetRef.current = VIDEOS_PER_PAGE;
+          hasSyncedRef.current = true;
+          store.setVideos(processedVideos);
+          setIsStale(false);
+          setLastSyncedAt(Date.now());
         } else {
-          setVideos((prev) => {
+          store.setVideos((prev) => {
             // Check if we're not duplicating videos
             const existingIds = new Set(prev.map((v) => v.id));
             const newVideosToAdd = processedVideos.filter(
               (v) => !existingIds.has(v.id)
             );
-            const newVideos = [...prev, ...newVideosToAdd];
-            offsetRef.current = newVideos.length;
-            return newVideos;
+            return [...prev, ...newVideosToAdd];
           });
         }
 
         setError(null);
       } catch (err) {
+        if (!isCurrent()) {
+          return;
+        }
         console.error("[VideoContext] Error fetching videos:", err);
         setError(err instanceof Error ? err.message : "Failed to fetch videos");
+        if (reset) {
+          setIsStale(true);
+        }
       } finally {
-        setLoading(false);
-        setLoadingMore(false);
+        if (isCurrent()) {
+          setLoading(false);
+          setLoadingMore(false);
+        }
       }
     },
-    [user]
+    [user, fetchActiveVideos, store]
+  );
+
+  /**
+   * Applies the changes made while the realtime channel was down: rows
+   * updated since `since` (relies on the `updated_at` column) and rows
+   * deleted from the loaded list.
+   */
+  const fetchMissedChanges = useCallback(
+    async (since: number) => {
+      if (!user) {
+        return;
+      }
+
+      const sinceIso = new Date(
+        since - MISSED_CHANGES_MARGIN_MS
+      ).toISOString();
+      const loadedIds = store.getState().ids;
+      lastEventAtRef.current = Date.now();
+      fetchActiveVideos();
+
+      try {
+        const [changed, remaining] = await Promise.all([
+          supabase
+            .from("videos")
+            .select(VIDEO_COLUMNS)
+            .eq("user_id", user.id)
+            .gte("updated_at", sinceIso),
+          supabase.from("videos").select("id").in("id", loadedIds),
+        ]);
+
+        if (changed.error || remaining.error) {
+          throw changed.error || remaining.error;
+        }
+
+        const changedRows = (changed.data ?? []) as VideoRecord[];
+        const remainingIds = new Set((remaining.data ?? []).map((r) => r.id));
+
+        store.setVideos((prev) => {
+          const changedById = new Map(changedRows.map((row) => [row.id, row]));
+          const merged = prev
+            .filter((v) => remainingIds.has(v.id) || changedById.has(v.id))
+            .map((v) => {
+              const row = changedById.get(v.id);
+              return row ? withManagedSignedUrl({ ...v, ...row }) : v;
+            });
+
+          // Rows created during the gap, if the current filters show them.
+          // Older rows that merely changed stay where a later page puts them.
+          const createdAfter = Math.min(
+            since - MISSED_CHANGES_MARGIN_MS,
+            Math.max(0, ...prev.map((v) => Date.parse(v.created_at) + 1))
+          );
+          const existingIds = new Set(prev.map((v) => v.id));
+          const created = changedRows
+            .filter(
+              (row) =>
+                !existingIds.has(row.id) &&
+                Date.parse(row.created_at) >= createdAfter &&
+                matchesVideoFilters(row, filtersRef.current)
+            )
+            .map(withManagedSignedUrl);
+
+          return insertCreatedVideos(
+            merged,
+            created,
+            sortRef.current,
+            !hasMoreRef.current
+          );
+        });
+
+        signVideosInBatch(changedRows);
+      } catch (err) {
+        console.error(
+          "[VideoContext] Error fetching missed changes, reloading:",
+          err
+        );
+        await fetchVideos(true);
+      }
+    },
+    [user, fetchVideos, fetchActiveVideos, store]
   );
 
   const loadMore = useCallback(async () => {
-    if (!hasMore || loadingMore || loading) {
+    if (!hasMoreRef.current || loadingMoreRef.current || loadingRef.current) {
       return;
     }
 
-    await fetchVideos(false);
-  }, [hasMore, loadingMore, loading, fetchVideos]);
+    // Set right away so a second call before the next render is ignored
+    loadingMoreRef.current = true;
+    try {
+      await fetchVideos(false);
+    } finally {
+      loadingMoreRef.current = false;
+    }
+  }, [fetchVideos]);
 
+  // Reload from the first page whenever the query changes
+  const listQueryKey = JSON.stringify({ filters, sort });
+  const fetchedQueryKeyRef = useRef(listQueryKey);
   useEffect(() => {
-    if (authLoading) {
+    if (fetchedQueryKeyRef.current === listQueryKey) {
       return;
     }
+    fetchedQueryKeyRef.current = listQueryKey;
+    fetchVideos(true);
+  }, [listQueryKey, fetchVideos]);
 
-    if (!user) {
-      setVideos([]);
-      setLoading(false);
-      offsetRef.current = 0;
-      setHasMore(true);
+  // Show the last known library right away; the first fetch revalidates it
+  useEffect(() => {
+    hasSyncedRef.current = false;
+    setIsStale(false);
+    setLastSyncedAt(null);
+
+    if (authLoading || !user) {
       return;
     }
 
-    let unsubscribeRealtime: (() => void) | undefined;
-    let authListener: {
-      data: { subscription: { unsubscribe: () => void } };
-    } | null = null;
-    let isSubscribed = false;
-
-    const subscribeAndFetch = (user: { id: string }) => {
-      if (isSubscribed) {
-        return () => {};
+    let cancelled = false;
+    loadCachedVideos(user.id).then((cached) => {
+      // A fetch that already finished is newer than the cache
+      if (cancelled || !cached || hasSyncedRef.current) {
+        return;
       }
+      // Reuse URLs from the cache that have not expired yet
+      cached.videos.forEach((video) => {
+        const { bucket_path, signed_url, signed_url_created_at } = video;
+        if (bucket_path && signed_url && signed_url_created_at) {
+          signedUrlManager.seed(bucket_path, {
+            url: signed_url,
+            createdAt: signed_url_created_at,
+          });
+        }
+      });
+      store.setVideos(cached.videos.map(withManagedSignedUrl));
+      setIsStale(true);
+      setLastSyncedAt(cached.savedAt);
+    });
 
-      const topic = `user:${user.id}:videos`;
-
-      const channel = supabase
-        .channel(topic, { config: { private: true } })
-        .on(
-          // @ts-ignore - Supabase broadcast type is incomplete
-          "broadcast" as any,
-          { event: "INSERT" },
-          // @ts-ignore
-          (event: any) => {
-            // The payload structure from realtime.broadcast_changes is:
-            // payload: { id, old_record, operation, record: {...actual video data...}, schema, table }
-            // We need to extract payload.record which contains the actual video record
-            let record: any = null;
-
-            // The actual video record is in payload.record
-            if (event?.payload?.record) {
-              record = event.payload.record;
-            }
-            // Fallback: if payload itself looks like a record (has id and user_id)
-            else if (event?.payload?.id && event?.payload?.user_id) {
-              record = event.payload;
-            }
-            // Last resort: check event itself
-            else if (event?.id && event?.user_id) {
-              record = event;
-            } else {
-              console.warn(
-                "[VideoContext] Could not extract record from INSERT broadcast. Payload:",
-                event?.payload
-              );
-              return;
-            }
-
-            if (record && record.id) {
-              // Add the record immediately - the broadcast contains all the data we need
-              setVideos((prev) => {
-                const exists = prev.find((v) => v.id === record.id);
-                if (exists) {
-                  // Update existing video
-                  return prev.map((v) =>
-                    v.id === record.id
-                      ? ({
-                          ...v,
-                          ...record,
-                          signed_url: record.signed_url || v.signed_url || null,
-                          signed_url_loading: false,
-                          signed_url_created_at:
-                            record.signed_url_created_at ||
-                            v.signed_url_created_at,
-                        } as VideoRecord)
-                      : v
-                  );
-                }
-                // Ensure we have all required fields with defaults
-                const videoRecord: VideoRecord = {
-                  id: record.id,
-                  user_id: record.user_id || "",
-                  prompt: record.prompt || "",
-                  status: record.status || "processing",
-                  bucket_path: record.bucket_path || null,
-                  signed_url: record.signed_url || null,
-                  signed_url_loading: false,
-                  signed_url_created_at: record.signed_url_created_at,
-                  duration: record.duration || null,
-                  created_at: record.created_at || new Date().toISOString(),
-                  completed_at: record.completed_at || null,
-                  error_message: record.error_message || null,
-                };
-                // Add new video at the beginning (most recent first)
-                return [videoRecord, ...prev];
-              });
-            }
-          }
-        )
-        .on(
-          // @ts-ignore - Supabase broadcast type is incomplete
-          "broadcast" as any,
-          { event: "UPDATE" },
-          // @ts-ignore
-          async (event: any) => {
-            // Extract record from payload.record (same structure as INSERT)
-            let record: any = null;
-
-            if (event?.payload?.record) {
-              record = event.payload.record;
-            } else if (event?.payload?.id && event?.payload?.user_id) {
-              record = event.payload;
-            } else if (event?.id && event?.user_id) {
-              record = event;
-            } else {
-              console.warn(
-                "[VideoContext] Could not extract record from UPDATE broadcast. Payload:",
-                event?.payload
-              );
-              return;
-            }
-
-            if (record && record.id) {
-              // Check if video status changed to completed and needs signed URL
-              const shouldGenerateSignedUrl =
-                record.status === "completed" &&
-                record.bucket_path &&
-                !record.signed_url;
-
-              if (shouldGenerateSignedUrl) {
-                // Generate signed URL for completed video
-                try {
-                  setVideos((prev) =>
-                    prev.map((v) =>
-                      v.id === record.id
-                        ? ({
-                            ...v,
-                            ...record,
-                            signed_url_loading: true,
-                          } as VideoRecord)
-                        : v
-                    )
-                  );
-
-                  const signedUrl = await getSignedUrlAndDownload({
-                    bucket: "32_seconds_videos",
-                    path: record.bucket_path,
-                    expires: SIGNED_URL_EXPIRES,
-                    filename: record.id,
-                    supabase,
-                  });
-
-                  setVideos((prev) =>
-                    prev.map((v) =>
-                      v.id === record.id
-                        ? ({
-                            ...v,
-                            ...record,
-                            signed_url: signedUrl,
-                            signed_url_loading: false,
-                            signed_url_created_at: Date.now(),
-                          } as VideoRecord)
-                        : v
-                    )
-                  );
-                } catch (err) {
-                  console.error(
-                    `[VideoContext] Failed to get signed url for ${record.id}:`,
-                    err
-                  );
-                  // Still update with the record even if signed URL fails
-                  setVideos((prev) =>
-                    prev.map((v) =>
-                      v.id === record.id
-                        ? ({
-                            ...v,
-                            ...record,
-                            signed_url_loading: false,
-                          } as VideoRecord)
-                        : v
-                    )
-                  );
-                }
-              } else {
-                // Merge updates into the existing item
-                setVideos((prev) =>
-                  prev.map((v) => {
-                    if (v.id !== record.id) {
-                      return v;
-                    }
-
-                    const merged = {
-                      ...v,
-                      ...record,
-                    } as VideoRecord;
-
-                    // If the video is no longer completed, clear any stale signed URL
-                    if (record.status && record.status !== "completed") {
-                      merged.signed_url = null;
-                      merged.signed_url_loading = false;
-                      merged.signed_url_created_at = undefined;
-                    } else {
-                      merged.signed_url =
-                        record.signed_url || v.signed_url || null;
-                      merged.signed_url_loading = false;
-                      // Preserve existing signed_url_created_at if URL wasn't regenerated
-                      merged.signed_url_created_at = v.signed_url_created_at;
-                    }
-
-                    return merged;
-                  })
-                );
-              }
-            }
-          }
-        )
-        .on(
-          // @ts-ignore - Supabase broadcast type is incomplete
-          "broadcast" as any,
-          { event: "DELETE" },
-          // @ts-ignore
-          (event: any) => {
-            // Extract record from payload.record or payload.old_record
-            let record: any = null;
-
-            if (event?.payload?.record) {
-              record = event.payload.record;
-            } else if (event?.payload?.old_record) {
-              record = event.payload.old_record;
-            } else if (event?.payload?.id) {
-              record = { id: event.payload.id };
-            } else if (event?.id) {
-              record = { id: event.id };
-            }
-
-            const id = record?.id;
+    return () => {
+      cancelled = true;
+    };
+  }, [user, authLoading, store]);
 
-            if (id) {
-              setVideos((prev) => {
-                const newVideos = prev.filter((v) => v.id !== id);
-                // Update offset when video is deleted
-                offsetRef.current = newVideos.length;
-                return newVideos;
-              });
-            }
-          }
-        )
-        // @ts-ignore
-        .subscribe((status: any, err: any) => {
-          if (err) {
-            console.error("[VideoContext] Subscription error:", err);
-          }
-          if (status === "SUBSCRIBED") {
-            if (!isSubscribed) {
-              fetchVideos(true);
-              isSubscribed = true;
+  // Mirror newly signed URLs into every video that uses the file
+  useEffect(() => {
+    return signedUrlManager.subscribe((bucketPath, entry) => {
+      store.updateVideos((v) =>
+        v.bucket_path === bucketPath && v.status === "completed"
+          ? {
+              ...v,
+              signed_url: entry.url,
+              signed_url_created_at: entry.createdAt,
             }
-          } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
-            isSubscribed = false;
-            console.warn(
-              `[VideoContext] Realtime connection ${status}. Client will attempt reconnect.`
-            );
-          }
-        });
-
-      return () => {
-        isSubscribed = false;
-        supabase.removeChannel(channel);
-      };
-    };
+          : v
+      );
+    });
+  }, [store]);
 
-    // Subscribe when user is available (only once)
-    if (user && !unsubscribeRealtime) {
-      unsubscribeRealtime = subscribeAndFetch(user);
+  // Keep the cache in step with every confirmed change
+  useEffect(() => {
+    if (!user || isStale || loading) {
+      return;
     }
-
-    authListener = supabase.auth.onAuthStateChange((event, session) => {
-      // Skip if we already have a subscription for this user
-      if (session?.user && unsubscribeRealtime && event === "TOKEN_REFRESHED") {
-        return; // Don't resubscribe on token refresh
+    let saveTimeout: ReturnType<typeof setTimeout> | null = null;
+    const save = () => {
+      saveTimeout = null;
+      saveCachedVideos(user.id, store.getVideos());
+    };
+    const scheduleSave = () => {
+      if (!saveTimeout) {
+        saveTimeout = setTimeout(save, CACHE_SAVE_INTERVAL_MS);
       }
+    };
 
-      if (unsubscribeRealtime) {
-        unsubscribeRealtime();
-        unsubscribeRealtime = undefined;
+    save();
+    const unsubscribe = store.subscribe(scheduleSave);
+    return () => {
+      unsubscribe();
+      // Write the pending change instead of dropping it
+      if (saveTimeout) {
+        clearTimeout(saveTimeout);
+        save();
       }
+    };
+  }, [store, user, isStale, loading]);
 
-      if (session?.user && event !== "TOKEN_REFRESHED") {
-        unsubscribeRealtime = subscribeAndFetch(session.user);
-      } else if (event === "SIGNED_OUT") {
-        supabase.removeAllChannels();
-        setVideos([]);
-        offsetRef.current = 0;
-        setHasMore(true);
+  // Revalidate as soon as the device comes back online
+  useEffect(() => {
+    let wasOffline = false;
+
+    const unsubscribe = NetInfo.addEventListener((state) => {
+      const offline =
+        state.isConnected === false || state.isInternetReachable === false;
+      if (wasOffline && !offline && isStaleRef.current) {
+        fetchVideos(true);
       }
+      wasOffline = offline;
     });
 
-    return () => {
-      if (unsubscribeRealtime) {
-        unsubscribeRealtime();
-      }
-      if (authListener) {
-        authListener.data.subscription.unsubscribe();
+    return unsubscribe;
+  }, [fetchVideos]);
+
+  useEffect(() => {
+    if (authLoading || user) {
+      return;
+    }
+
+    signedUrlManager.clear();
+    store.clear();
+    setLoading(false);
+    cursorRef.current = null;
+    setHasMore(true);
+  }, [user, authLoading, store]);
+
+  // Keeps the active set current, whatever the list filters show
+  const trackRealtimeStatus = (record: VideoRecord) => {
+    const { active, byId } = store.getState();
+    const known = active[record.id] ?? byId[record.id]?.status;
+    if (!known || canTransition(known, record.status)) {
+      store.trackStatus(record.id, record.status);
+    }
+  };
+
+  const { connectionState } = useRealtimeTable<VideoRecord>({
+    table: "videos",
+    schema: VIDEO_RECORD_SCHEMA,
+    logPrefix: "[VideoContext]",
+    onInsert: (record) => {
+      lastEventAtRef.current = Date.now();
+      trackRealtimeStatus(record);
+      store.setVideos((prev) => {
+        if (prev.some((v) => v.id === record.id)) {
+          return prev.map((v) =>
+            v.id === record.id ? applyRealtimeChange(v, record) : v
+          );
+        }
+        // Fill in columns the broadcast may leave out
+        const videoRecord: VideoRecord = {
+          id: record.id,
+          user_id: record.user_id,
+          prompt: record.prompt || "",
+          voice: record.voice || null,
+          source_video_id: record.source_video_id || null,
+          retry_of_video_id: record.retry_of_video_id || null,
+          options: record.options || null,
+          status: record.status,
+          stage: record.stage ?? null,
+          progress: record.progress ?? null,
+          bucket_path: record.bucket_path || null,
+          signed_url: null,
+          duration: record.duration || null,
+          created_at: record.created_at || new Date().toISOString(),
+          completed_at: record.completed_at || null,
+          error_message: record.error_message || null,
+          refunded: record.refunded ?? null,
+          is_favorite: record.is_favorite ?? null,
+        };
+        if (!matchesVideoFilters(videoRecord, filtersRef.current)) {
+          return prev;
+        }
+        return insertCreatedVideos(
+          prev,
+          [withManagedSignedUrl(videoRecord)],
+          sortRef.current,
+          !hasMoreRef.current
+        );
+      });
+    },
+    onUpdate: (record) => {
+      lastEventAtRef.current = Date.now();
+      trackRealtimeStatus(record);
+      // A video that just completed is signed once it is on screen
+      store.updateVideos((v) =>
+        v.id === record.id ? applyRealtimeChange(v, record) : v
+      );
+    },
+    onDelete: (id) => {
+      lastEventAtRef.current = Date.now();
+      store.trackStatus(id, null);
+      store.removeVideo(id);
+    },
+    onSubscribed: (reconnected) => {
+      // Catch up on the events missed while disconnected
+      if (reconnected && lastEventAtRef.current) {
+        fetchMissedChanges(lastEventAtRef.current);
+      } else {
+        fetchVideos(true);
       }
-    };
-  }, [fetchVideos, user, authLoading]);
+    },
+  });
 
   const deleteVideo = useCallback(async (videoId: string) => {
     const { error } = await supabase.from("videos").delete().eq("id", videoId);
     if (error) {
       throw error;
     }
-    setVideos((prev) => prev.filter((v) => v.id !== videoId));
-    // Update offset when video is deleted
-    offsetRef.current = Math.max(0, offsetRef.current - 1);
-  }, []);
+    store.removeVideo(videoId);
+  }, [store]);
+
+  const cancelVideo = useCallback(async (videoId: string) => {
+    const result = await cancelVideoRequest({ video_id: videoId });
+
+    // Apply the result right away; the UPDATE or DELETE broadcast that
+    // follows is a no-op by then
+    if (result.deleted) {
+      store.trackStatus(videoId, null);
+      store.removeVideo(videoId);
+    } else {
+      store.trackStatus(videoId, "cancelled");
+      store.updateVideos((v) =>
+        v.id === videoId ? { ...v, status: "cancelled" } : v
+      );
+    }
+
+    return result.refunded_amount ?? null;
+  }, [store]);
+
+  const toggleFavorite = useCallback(
+    async (videoId: string) => {
+      const video = store.getState().byId[videoId];
+      if (!video) {
+        return;
+      }
+      const isFavorite = !video.is_favorite;
+      const setFavorite = (value: boolean | null) =>
+        store.updateVideos((v) =>
+          v.id === videoId ? { ...v, is_favorite: value } : v
+        );
+
+      // Star right away; a favorites-only list keeps the video until the
+      // next reload so it doesn't vanish under the user's finger
+      setFavorite(isFavorite);
+      const { error } = await supabase
+        .from("videos")
+        .update({ is_favorite: isFavorite })
+        .eq("id", videoId);
+      if (error) {
+        setFavorite(video.is_favorite);
+        throw error;
+      }
+    },
+    [store]
+  );
 
   const refreshVideoSignedUrl = useCallback(
     async (videoId: string) => {
-      const video = videos.find((v) => v.id === videoId);
+      const video = store.getState().byId[videoId];
       if (!video || video.status !== "completed" || !video.bucket_path) {
         throw new Error("Video not found or not completed");
       }
 
       try {
-        const signedUrl = await getSignedUrlAndDownload({
-          bucket: "32_seconds_videos",
-          path: video.bucket_path,
-          expires: SIGNED_URL_EXPIRES,
+        return await signedUrlManager.ensure(video.bucket_path, {
           filename: video.id,
-          supabase,
         });
-
-        // Update the video in state
-        setVideos((prev) =>
-          prev.map((v) =>
-            v.id === videoId
-              ? {
-                  ...v,
-                  signed_url: signedUrl,
-                  signed_url_created_at: Date.now(),
-                }
-              : v
-          )
-        );
-
-        return signedUrl;
       } catch (err) {
         console.error(
           `[VideoContext] Failed to refresh signed URL for video ${videoId}:`,
@@ -542,29 +861,130 @@ export function VideoProvider({ children }: { children: ReactNode }) {
         throw err;
       }
     },
-    [videos]
+    [store]
   );
 
+  const refreshSignedUrls = useCallback(
+    () => signVideosInBatch(store.getVideos()),
+    [store]
+  );
+
+  // URLs may have expired while the app was in the background
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") {
+        refreshSignedUrls();
+      }
+    });
+    return () => subscription.remove();
+  }, [refreshSignedUrls]);
+
   const refetch = useCallback(() => {
     return fetchVideos(true);
   }, [fetchVideos]);
 
+  const searchVideos = useCallback(
+    async (text: string, cursor: PageCursor | null, signal?: AbortSignal) => {
+      if (!user) {
+        return [];
+      }
+
+      let query = supabase
+        .from("videos")
+        .select(VIDEO_COLUMNS)
+        .eq("user_id", user.id)
+        .ilike("prompt", `%${escapeLikePattern(text)}%`);
+
+      if (cursor) {
+        query = query.or(afterCursorFilter(cursor));
+      }
+      if (signal) {
+        query = query.abortSignal(signal);
+      }
+
+      const { data, error: searchError } = await query
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(VIDEOS_PER_PAGE);
+
+      if (searchError) {
+        throw searchError;
+      }
+
+      const results = ((data ?? []) as VideoRecord[]).map(
+        withManagedSignedUrl
+      );
+      // A new search replaces the results of the previous one
+      store.addDetached(results, { replace: !cursor });
+      signVideosInBatch(results);
+      return results;
+    },
+    [user, store]
+  );
+
+  const actions = useMemo(
+    () => ({
+      clearSearchResults: store.clearDetached,
+      loadMore,
+      deleteVideo,
+      cancelVideo,
+      refreshVideoSignedUrl,
+      refreshSignedUrls,
+      refetch,
+      toggleFavorite,
+      searchVideos,
+    }),
+    [
+      loadMore,
+      deleteVideo,
+      cancelVideo,
+      refreshVideoSignedUrl,
+      refreshSignedUrls,
+      refetch,
+      toggleFavorite,
+      searchVideos,
+      store,
+    ]
+  );
+
+  const storeValue = useMemo(() => ({ store, actions }), [store, actions]);
+
+  const value = useMemo(
+    () => ({
+      ...actions,
+      store,
+      actions,
+      loading,
+      loadingMore,
+      hasMore,
+      error,
+      isStale,
+      lastSyncedAt,
+      connectionState,
+      filters,
+      sort,
+      setFilters,
+      setSort,
+    }),
+    [
+      actions,
+      store,
+      loading,
+      loadingMore,
+      hasMore,
+      error,
+      isStale,
+      lastSyncedAt,
+      connectionState,
+      filters,
+      sort,
+    ]
+  );
+
   return (
-    <VideoContext.Provider
-      value={{
-        videos,
-        loading,
-        loadingMore,
-        hasMore,
-        error,
-        loadMore,
-        deleteVideo,
-        refreshVideoSignedUrl,
-        refetch,
-      }}
-    >
-      {children}
-    </VideoContext.Provider>
+    <VideoStoreContext.Provider value={storeValue}>
+      <VideoContext.Provider value={value}>{children}</VideoContext.Provider>
+    </VideoStoreContext.Provider>
   );
 }
 
@@ -576,5 +996,74 @@ export function useVideoContext() {
   return context;
 }
 
+function useVideoStoreContext() {
+  const context = useContext(VideoStoreContext);
+  if (context === undefined) {
+    throw new Error("useVideoSelector must be used within a VideoProvider");
+  }
+  return context;
+}
 
+/**
+ * Reads a value derived from the video store. The component re-renders
+ * only when `isEqual` says the derived value changed.
+ */
+export function useVideoSelector<T>(
+  selector: (state: VideoStoreState) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T {
+  const { store } = useVideoStoreContext();
+  const cacheRef = useRef<{
+    state: VideoStoreState;
+    selector: (state: VideoStoreState) => T;
+    value: T;
+  } | null>(null);
 
+  const getSnapshot = () => {
+    const state = store.getState();
+    const cached = cacheRef.current;
+    if (cached?.state === state && cached.selector === selector) {
+      return cached.value;
+    }
+    // Keep the previous value when nothing it depends on changed
+    const next = selector(state);
+    const value = cached && isEqual(cached.value, next) ? cached.value : next;
+    cacheRef.current = { state, selector, value };
+    return value;
+  };
+
+  return useSyncExternalStore(store.subscribe, getSnapshot);
+}
+
+export function useVideo(id: string | undefined): VideoRecord | undefined {
+  return useVideoSelector((state) => (id ? state.byId[id] : undefined));
+}
+
+/** Ids of the loaded videos in list order, optionally filtered */
+export function useVideoIds(filter?: (video: VideoRecord) => boolean) {
+  return useVideoSelector(
+    (state) => (filter ? state.list.filter(filter).map((v) => v.id) : state.ids),
+    shallowEqualArrays
+  );
+}
+
+/** Every loaded video; re-renders on any change, so prefer the hooks above */
+export function useVideoList(): VideoRecord[] {
+  return useVideoSelector((state) => state.list);
+}
+
+/**
+ * The video store itself, for reads inside callbacks. Render through
+ * `useVideoSelector` instead; this never re-renders the component.
+ */
+export function useVideoStore(): VideoStore {
+  return useVideoStoreContext().store;
+}
+
+/**
+ * Video operations. They keep their identity across list and loading
+ * changes, so reading them doesn't re-render the component.
+ */
+export function useVideoActions(): VideoActions {
+  return useVideoStoreContext().actions;
+}
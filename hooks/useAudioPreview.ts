@@ -0,0 +1,170 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Alert } from "react-native";
+import { AudioModule, setAudioModeAsync } from "expo-audio";
+import type { AudioPlayer } from "expo-audio";
+
+/**
+ * Plays short audio previews (voice samples, music tracks) one at a time.
+ * Players are cached per id and released on unmount.
+ */
+export function useAudioPreview() {
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const audioPlayersRef = useRef<{ [key: string]: AudioPlayer }>({});
+
+  // Configure audio mode on mount
+  useEffect(() => {
+    const configureAudio = async () => {
+      try {
+        await setAudioModeAsync({
+          playsInSilentMode: true,
+          interruptionMode: "duckOthers",
+          shouldPlayInBackground: false,
+        });
+      } catch {}
+    };
+    configureAudio();
+  }, []);
+
+  // Cleanup all audio players on unmount
+  useEffect(() => {
+    return () => {
+      const currentPlayers = audioPlayersRef.current;
+      Object.values(currentPlayers).forEach((player) => {
+        if (player) {
+          try {
+            player.pause();
+            player.seekTo(0);
+            player.remove();
+          } catch {
+            // Silently handle cleanup errors
+          }
+        }
+      });
+      audioPlayersRef.current = {};
+    };
+  }, []);
+
+  // Stop any previously playing preview when a new one starts
+  useEffect(() => {
+    const previousPlayers = Object.entries(audioPlayersRef.current);
+    previousPlayers.forEach(([id, player]) => {
+      if (id !== playingId && player && player.playing) {
+        try {
+          player.pause();
+          player.seekTo(0);
+        } catch {
+          // Silently handle cleanup errors
+        }
+      }
+    });
+  }, [playingId]);
+
+  const stopAll = useCallback(() => {
+    Object.values(audioPlayersRef.current).forEach((player) => {
+      if (player && player.playing) {
+        try {
+          player.pause();
+          player.seekTo(0);
+        } catch {}
+      }
+    });
+    setPlayingId(null);
+  }, []);
+
+  const togglePreview = useCallback(
+    (id: string, url: string) => {
+      try {
+        // If clicking the same preview, toggle play/pause
+        if (playingId === id) {
+          const player = audioPlayersRef.current[id];
+          if (player) {
+            if (player.playing) {
+              player.pause();
+              setPlayingId(null);
+            } else {
+              player.play();
+            }
+          }
+          return;
+        }
+
+        // Stop any currently playing audio
+        for (const player of Object.values(audioPlayersRef.current)) {
+          if (player && player.playing) {
+            try {
+              player.pause();
+              player.seekTo(0);
+            } catch {}
+          }
+        }
+
+        // Load and play new preview
+        let player = audioPlayersRef.current[id];
+        let shouldAutoPlay = true;
+
+        if (!player) {
+          // AudioSource can be a string (URI) or an object with uri property
+          const audioSource = { uri: url };
+          player = new (AudioModule as any).AudioPlayer(
+            audioSource,
+            500,
+            false
+          );
+          audioPlayersRef.current[id] = player;
+
+          // Handle playback finish and errors
+          player.addListener("playbackStatusUpdate", (status: any) => {
+            if (status.isLoaded) {
+              // Auto-play when loaded if we haven't started yet
+              if (shouldAutoPlay && !status.playing && !status.didJustFinish) {
+                player.volume = 1.0;
+                player.muted = false;
+                player.play();
+                setPlayingId(id);
+                shouldAutoPlay = false;
+              }
+
+              if (status.didJustFinish) {
+                setPlayingId(null);
+              }
+            }
+          });
+        } else {
+          // Replace source and reset position
+          player.replace({ uri: url });
+          player.seekTo(0);
+
+          // Set up listener for auto-play on load
+          const statusListener = (status: any) => {
+            if (status.isLoaded && shouldAutoPlay && !status.playing) {
+              player.volume = 1.0;
+              player.muted = false;
+              player.play();
+              setPlayingId(id);
+              shouldAutoPlay = false;
+              player.removeListener("playbackStatusUpdate", statusListener);
+            }
+          };
+          player.addListener("playbackStatusUpdate", statusListener);
+        }
+
+        // Try to play immediately if already loaded
+        if (player.isLoaded) {
+          player.volume = 1.0;
+          player.muted = false;
+          player.play();
+          setPlayingId(id);
+          shouldAutoPlay = false;
+        }
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        Alert.alert("Error", `Failed to play preview: ${errorMessage}`);
+        setPlayingId(null);
+      }
+    },
+    [playingId]
+  );
+
+  return { playingId, togglePreview, stopAll };
+}
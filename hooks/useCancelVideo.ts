@@ -0,0 +1,61 @@
+import { useState, useCallback } from "react";
+import { Alert } from "react-native";
+import { useVideoActions } from "../contexts/VideoContext";
+import { PRICE_PER_VIDEO, VideoRecord } from "../constants/constants";
+
+/**
+ * Asks for confirmation, cancels a queued video and tells the user
+ * how much was refunded, when the server reports the amount.
+ */
+export function useCancelVideo() {
+  const { cancelVideo } = useVideoActions();
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const runCancel = useCallback(
+    async (videoId: string) => {
+      try {
+        setCancellingId(videoId);
+        const refunded = await cancelVideo(videoId);
+        Alert.alert(
+          "Video Cancelled",
+          refunded !== null
+            ? `$${refunded.toFixed(2)} was refunded to your balance.`
+            : "The refund will be applied to your balance."
+        );
+      } catch (err) {
+        console.error("Error cancelling video:", err);
+        Alert.alert(
+          "Cancel Failed",
+          err instanceof Error
+            ? err.message
+            : "Failed to cancel video. Please try again."
+        );
+      } finally {
+        setCancellingId(null);
+      }
+    },
+    [cancelVideo]
+  );
+
+  const confirmCancel = useCallback(
+    (video: VideoRecord) => {
+      Alert.alert(
+        "Cancel Video?",
+        `This video has not started yet. Cancelling refunds $${PRICE_PER_VIDEO.toFixed(
+          2
+        )} to your balance.`,
+        [
+          { text: "Keep", style: "cancel" },
+          {
+            text: "Cancel Video",
+            style: "destructive",
+            onPress: () => runCancel(video.id),
+          },
+        ]
+      );
+    },
+    [runCancel]
+  );
+
+  return { cancellingId, confirmCancel };
+}
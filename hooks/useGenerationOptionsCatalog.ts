@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  GenerationOptionsCatalog,
+  getGenerationOptionsCatalog,
+} from "../lib/edgeFunctions";
+import {
+  FALLBACK_GENERATION_OPTIONS_CATALOG,
+} from "../utils/generationOptions";
+
+/**
+ * The options the server accepts. When they can't be loaded, `catalog`
+ * falls back to the built-in defaults and `error` says why.
+ */
+export function useGenerationOptionsCatalog() {
+  const [catalog, setCatalog] = useState<GenerationOptionsCatalog | null>(
+    null
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCatalog = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await getGenerationOptionsCatalog();
+      setCatalog(data);
+    } catch (err) {
+      console.error("Error fetching generation options:", err);
+      setCatalog(
+        (current) => current ?? FALLBACK_GENERATION_OPTIONS_CATALOG
+      );
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch generation options"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCatalog();
+  }, [fetchCatalog]);
+
+  return { catalog, loading, error, refetch: fetchCatalog };
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect } from "react";
+import { supabase } from "../lib/supabase";
+
+export interface MusicTrack {
+  id: string; // track_id from database
+  title: string; // title from database
+  genre: string;
+  mood: string;
+  url: string; // preview_url from database
+}
+
+export function useMusicList() {
+  const [tracks, setTracks] = useState<MusicTrack[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchTracks = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const { data, error: fetchError } = await supabase
+          .from("music_tracks")
+          .select("track_id, title, genre, mood, preview_url, display_order")
+          .eq("active", true)
+          .order("display_order", { ascending: true });
+
+        if (fetchError) {
+          console.error("Error fetching music tracks:", fetchError);
+          setError(fetchError.message);
+          return;
+        }
+
+        if (data) {
+          const mappedTracks: MusicTrack[] = data.map((track) => ({
+            id: track.track_id,
+            title: track.title,
+            genre: track.genre,
+            mood: track.mood,
+            url: track.preview_url,
+          }));
+          setTracks(mappedTracks);
+        }
+      } catch (err) {
+        console.error("Error fetching music tracks:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to fetch music tracks"
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTracks();
+  }, []);
+
+  return { tracks, loading, error };
+}
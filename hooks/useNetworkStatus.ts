@@ -0,0 +1,13 @@
+import { useNetInfo } from "@react-native-community/netinfo";
+
+/**
+ * Whether the device currently has no usable connection. Unknown states
+ * count as online so nothing is flagged before the first check finishes.
+ */
+export function useNetworkStatus() {
+  const { isConnected, isInternetReachable } = useNetInfo();
+
+  return {
+    isOffline: isConnected === false || isInternetReachable === false,
+  };
+}
@@ -0,0 +1,20 @@
+import { useState, useEffect } from "react";
+
+/**
+ * Current time in milliseconds, refreshed every `intervalMs` while
+ * `enabled`, e.g. for a running timer.
+ */
+export function useNow(enabled = true, intervalMs = 1000) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [enabled, intervalMs]);
+
+  return now;
+}
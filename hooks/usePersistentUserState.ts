@@ -0,0 +1,103 @@
+import {
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  Dispatch,
+  SetStateAction,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useAuthContext } from "../contexts/AuthContext";
+
+interface PersistentState<T> {
+  /** Storage key the value was loaded for */
+  key: string | null;
+  value: T;
+  hydrated: boolean;
+}
+
+function parseJson<T>(raw: string): T {
+  return JSON.parse(raw) as T;
+}
+
+/**
+ * State stored in AsyncStorage under `<keyPrefix>:<userId>`. Every user
+ * starts from `initial` until their stored value is loaded, and changes
+ * are saved only after that, so a slow load never overwrites what is
+ * stored. The third value tells whether the load has finished.
+ */
+export function usePersistentUserState<T>(
+  keyPrefix: string,
+  initial: T,
+  parse: (raw: string) => T = parseJson
+): [T, Dispatch<SetStateAction<T>>, boolean] {
+  const { user } = useAuthContext();
+  const storageKey = user ? `${keyPrefix}:${user.id}` : null;
+  const [state, setState] = useState<PersistentState<T>>({
+    key: null,
+    value: initial,
+    hydrated: false,
+  });
+  const initialRef = useRef(initial);
+  initialRef.current = initial;
+  const parseRef = useRef(parse);
+  parseRef.current = parse;
+
+  // Load the stored value for the current user
+  useEffect(() => {
+    setState({ key: storageKey, value: initialRef.current, hydrated: false });
+
+    if (!storageKey) {
+      return;
+    }
+
+    let cancelled = false;
+    AsyncStorage.getItem(storageKey)
+      .then((raw) => {
+        if (!cancelled && raw) {
+          const value = parseRef.current(raw);
+          setState((prev) => ({ ...prev, value }));
+        }
+      })
+      .catch((err) => {
+        console.warn(`[PersistentState] Failed to load ${storageKey}:`, err);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setState((prev) => ({ ...prev, hydrated: true }));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storageKey]);
+
+  // Until the effect above runs, the state still belongs to the last user
+  const isCurrent = state.key === storageKey;
+  const hydrated = isCurrent && state.hydrated;
+
+  // Persist every change once the stored value has been loaded
+  useEffect(() => {
+    if (!storageKey || !hydrated) {
+      return;
+    }
+    AsyncStorage.setItem(storageKey, JSON.stringify(state.value)).catch(
+      (err) => {
+        console.warn(`[PersistentState] Failed to save ${storageKey}:`, err);
+      }
+    );
+  }, [state.value, storageKey, hydrated]);
+
+  const setValue = useCallback((action: SetStateAction<T>) => {
+    setState((prev) => ({
+      ...prev,
+      value:
+        typeof action === "function"
+          ? (action as (prev: T) => T)(prev.value)
+          : action,
+    }));
+  }, []);
+
+  return [isCurrent ? state.value : initial, setValue, hydrated];
+}
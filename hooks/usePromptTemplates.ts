@@ -0,0 +1,129 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "../lib/supabase";
+import { useAuthContext } from "../contexts/AuthContext";
+import { BUILT_IN_TEMPLATES, PromptTemplate } from "../utils/promptTemplates";
+
+type TemplateInput = Pick<PromptTemplate, "title" | "body">;
+
+/**
+ * Built-in templates followed by the user's own templates from the
+ * `prompt_templates` table.
+ */
+export function usePromptTemplates() {
+  const { user } = useAuthContext();
+  const [userTemplates, setUserTemplates] = useState<PromptTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    if (!user) {
+      setUserTemplates([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from("prompt_templates")
+        .select("id, title, body")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: true });
+
+      if (fetchError) {
+        console.error("Error fetching prompt templates:", fetchError);
+        setError(fetchError.message);
+        return;
+      }
+
+      if (data) {
+        setUserTemplates(
+          data.map((template) => ({
+            id: template.id,
+            title: template.title,
+            body: template.body,
+            built_in: false,
+          }))
+        );
+      }
+    } catch (err) {
+      console.error("Error fetching prompt templates:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch templates"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const createTemplate = useCallback(
+    async ({ title, body }: TemplateInput) => {
+      if (!user) {
+        throw new Error("User not authenticated");
+      }
+
+      const { data, error: insertError } = await supabase
+        .from("prompt_templates")
+        .insert({ user_id: user.id, title, body })
+        .select("id, title, body")
+        .single();
+
+      if (insertError) {
+        throw insertError;
+      }
+
+      setUserTemplates((prev) => [...prev, { ...data, built_in: false }]);
+    },
+    [user]
+  );
+
+  const updateTemplate = useCallback(
+    async (id: string, { title, body }: TemplateInput) => {
+      const { error: updateError } = await supabase
+        .from("prompt_templates")
+        .update({ title, body, updated_at: new Date().toISOString() })
+        .eq("id", id);
+
+      if (updateError) {
+        throw updateError;
+      }
+
+      setUserTemplates((prev) =>
+        prev.map((template) =>
+          template.id === id ? { ...template, title, body } : template
+        )
+      );
+    },
+    []
+  );
+
+  const deleteTemplate = useCallback(async (id: string) => {
+    const { error: deleteError } = await supabase
+      .from("prompt_templates")
+      .delete()
+      .eq("id", id);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    setUserTemplates((prev) => prev.filter((template) => template.id !== id));
+  }, []);
+
+  return {
+    templates: [...BUILT_IN_TEMPLATES, ...userTemplates],
+    userTemplates,
+    loading,
+    error,
+    refetch: fetchTemplates,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+  };
+}
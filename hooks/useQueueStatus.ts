@@ -0,0 +1,71 @@
+import { useState, useCallback } from "react";
+import { useFocusEffect } from "expo-router";
+import {
+  QueueStatusEntry,
+  getQueueStatus,
+  isEdgeFunctionError,
+} from "../lib/edgeFunctions";
+
+const QUEUE_STATUS_POLL_MS = 15000; // 15 seconds
+
+/**
+ * Queue position of each queued video in `videoIds`, keyed by id. Polls
+ * while the screen is focused and reloads as soon as the set of ids
+ * changes, e.g. when a video leaves the queue. Keeps the last known
+ * entries when a request fails.
+ */
+export function useQueueStatus(videoIds: string[]) {
+  const [entries, setEntries] = useState<Record<string, QueueStatusEntry>>(
+    {}
+  );
+  // A string key keeps the effect from restarting on every new array
+  const idsKey = [...videoIds].sort().join(",");
+
+  useFocusEffect(
+    useCallback(() => {
+      const ids = idsKey ? idsKey.split(",") : [];
+      if (ids.length === 0) {
+        setEntries({});
+        return;
+      }
+
+      let cancelled = false;
+      let controller: AbortController | null = null;
+
+      const load = async () => {
+        controller?.abort();
+        controller = new AbortController();
+        try {
+          const result = await getQueueStatus(
+            { video_ids: ids },
+            { signal: controller.signal }
+          );
+          if (!cancelled) {
+            setEntries(
+              Object.fromEntries(
+                result.map((entry) => [entry.video_id, entry])
+              )
+            );
+          }
+        } catch (err) {
+          const aborted = isEdgeFunctionError(err) && err.kind === "aborted";
+          if (cancelled || aborted) {
+            return;
+          }
+          console.warn("Error fetching queue status:", err);
+        }
+      };
+
+      load();
+      const interval = setInterval(load, QUEUE_STATUS_POLL_MS);
+
+      return () => {
+        cancelled = true;
+        clearInterval(interval);
+        controller?.abort();
+      };
+    }, [idsKey])
+  );
+
+  return entries;
+}
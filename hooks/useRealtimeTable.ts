@@ -0,0 +1,97 @@
+import { useState, useEffect, useRef } from "react";
+import { useAuthContext } from "../contexts/AuthContext";
+import {
+  subscribeResilient,
+  extractBroadcastRecord,
+  matchesSchema,
+  BroadcastOperation,
+  RealtimeConnectionState,
+  RecordSchema,
+} from "../lib/realtimeChannel";
+
+interface RealtimeTableOptions<T extends { id: string }> {
+  /** Topic suffix; the channel is `user:<id>:<table>` */
+  table: string;
+  /** Payloads that don't match are logged and dropped */
+  schema: RecordSchema<T>;
+  /** Prefix for log messages, e.g. "[VideoContext]" */
+  logPrefix: string;
+  onInsert?: (record: T) => void;
+  onUpdate?: (record: T) => void;
+  /** DELETE payloads only guarantee the id */
+  onDelete?: (id: string) => void;
+  /** See `subscribeResilient`; `reconnected` means events may be missing */
+  onSubscribed?: (reconnected: boolean) => void;
+}
+
+/**
+ * Subscribes to the signed-in user's private broadcast channel for a
+ * table and delivers validated, typed row changes. Resubscribes when the
+ * user changes and reconnects with backoff when the channel drops.
+ */
+export function useRealtimeTable<T extends { id: string }>(
+  options: RealtimeTableOptions<T>
+) {
+  const { user, loading: authLoading } = useAuthContext();
+  const [connectionState, setConnectionState] =
+    useState<RealtimeConnectionState>("disconnected");
+  const userId = user?.id;
+  const { table, logPrefix } = options;
+
+  // Callbacks change on every render; read the latest ones when events arrive
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    if (authLoading || !userId) {
+      setConnectionState("disconnected");
+      return;
+    }
+
+    const handle = (operation: BroadcastOperation, event: unknown) => {
+      const { schema, onInsert, onUpdate, onDelete } = optionsRef.current;
+      const record = extractBroadcastRecord(event, operation);
+
+      if (operation === "DELETE") {
+        if (typeof record?.id === "string") {
+          onDelete?.(record.id);
+        } else {
+          console.warn(`${logPrefix} Invalid DELETE broadcast:`, event);
+        }
+        return;
+      }
+
+      if (!record || !matchesSchema<T>(record, schema)) {
+        console.warn(`${logPrefix} Invalid ${operation} broadcast:`, event);
+        return;
+      }
+
+      if (operation === "INSERT") {
+        onInsert?.(record);
+      } else {
+        onUpdate?.(record);
+      }
+    };
+
+    return subscribeResilient({
+      topic: `user:${userId}:${table}`,
+      logPrefix,
+      setup: (channel) =>
+        channel
+          .on("broadcast", { event: "INSERT" }, (event) =>
+            handle("INSERT", event)
+          )
+          .on("broadcast", { event: "UPDATE" }, (event) =>
+            handle("UPDATE", event)
+          )
+          .on("broadcast", { event: "DELETE" }, (event) =>
+            handle("DELETE", event)
+          ),
+      onStateChange: setConnectionState,
+      onSubscribed: (reconnected) =>
+        optionsRef.current.onSubscribed?.(reconnected),
+    });
+  }, [authLoading, userId, table, logPrefix]);
+
+  return { connectionState };
+}
@@ -0,0 +1,39 @@
+import { useCallback } from "react";
+import { usePersistentUserState } from "./usePersistentUserState";
+
+const RECENT_SEARCHES_STORAGE_KEY_PREFIX = "text2reel.recentSearches";
+const MAX_RECENT_SEARCHES = 8;
+
+/**
+ * The user's latest video searches, newest first, persisted per user.
+ */
+export function useRecentSearches() {
+  const [recentSearches, setRecentSearches] = usePersistentUserState<
+    string[]
+  >(RECENT_SEARCHES_STORAGE_KEY_PREFIX, []);
+
+  const addSearch = useCallback((text: string) => {
+    const term = text.trim();
+    if (!term) {
+      return;
+    }
+    const lower = term.toLowerCase();
+    setRecentSearches((prev) =>
+      [
+        term,
+        // Drop duplicates and the partial terms typed on the way here
+        ...prev.filter((item) => !lower.startsWith(item.toLowerCase())),
+      ].slice(0, MAX_RECENT_SEARCHES)
+    );
+  }, []);
+
+  const removeSearch = useCallback((text: string) => {
+    setRecentSearches((prev) => prev.filter((item) => item !== text));
+  }, []);
+
+  const clearSearches = useCallback(() => {
+    setRecentSearches([]);
+  }, []);
+
+  return { recentSearches, addSearch, removeSearch, clearSearches };
+}
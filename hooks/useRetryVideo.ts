@@ -0,0 +1,149 @@
+import { useState, useCallback, useMemo, useRef } from "react";
+import { Alert } from "react-native";
+import { useAuthContext } from "../contexts/AuthContext";
+import { useGenerationQueue } from "../contexts/GenerationQueueContext";
+import { useVideoSelector } from "../contexts/VideoContext";
+import { supabase } from "../lib/supabase";
+import { VideoStoreState, shallowEqualArrays } from "../lib/videoStore";
+import { PRICE_PER_VIDEO, VideoRecord } from "../constants/constants";
+import { submitVideoRequest } from "../utils/videoSubmission";
+
+/** Failed videos whose retry row is loaded, sorted */
+function selectRetriedIds(state: VideoStoreState) {
+  return Object.values(state.byId)
+    .map((video) => video.retry_of_video_id)
+    .filter((id): id is string => !!id)
+    .sort();
+}
+
+/**
+ * Whether retrying a failed video is free. Driven by the server's refund
+ * flag on the failed record.
+ */
+export function isRetryFree(video: VideoRecord): boolean {
+  return video.refunded === true;
+}
+
+/**
+ * Resubmits a failed video with the same prompt, voice and options,
+ * linked to the failed record. Waits in the generation queue while
+ * another video is generating, and never retries the same video twice.
+ */
+export function useRetryVideo(balance: number | null) {
+  const { user } = useAuthContext();
+  const { queue, shouldQueue, enqueue } = useGenerationQueue();
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  // Retries being sent right now; claimed before any await so a second
+  // tap can't submit again
+  const inFlightRef = useRef(new Set<string>());
+
+  const loadedRetriedIds = useVideoSelector(
+    selectRetriedIds,
+    shallowEqualArrays
+  );
+  // Loaded retries plus those still waiting in the queue. Queue items
+  // that failed to send don't count, so the video can be retried again;
+  // a retry that is sent but not loaded is caught by the server check.
+  const retriedIds = useMemo(() => {
+    const ids = new Set(loadedRetriedIds);
+    queue.forEach((item) => {
+      if (item.retry_of_video_id && !item.error) {
+        ids.add(item.retry_of_video_id);
+      }
+    });
+    return ids;
+  }, [loadedRetriedIds, queue]);
+
+  const retryVideo = useCallback(
+    async (video: VideoRecord): Promise<string | null> => {
+      if (!user) {
+        Alert.alert("Error", "User not authenticated");
+        return null;
+      }
+      if (inFlightRef.current.has(video.id) || retriedIds.has(video.id)) {
+        Alert.alert("Already Retried", "This video has already been retried.");
+        return null;
+      }
+
+      const canAfford = balance !== null && balance >= PRICE_PER_VIDEO;
+      if (!isRetryFree(video) && !canAfford) {
+        Alert.alert(
+          "Insufficient Balance",
+          `You need at least $${PRICE_PER_VIDEO} to retry this video.`
+        );
+        return null;
+      }
+
+      inFlightRef.current.add(video.id);
+      try {
+        setRetryingId(video.id);
+
+        // A retry from another device or an earlier session
+        const { data: existing, error: existingError } = await supabase
+          .from("videos")
+          .select("id")
+          .eq("retry_of_video_id", video.id)
+          .limit(1);
+        if (existingError) {
+          throw existingError;
+        }
+        if (existing && existing.length > 0) {
+          Alert.alert(
+            "Already Retried",
+            "This video has already been retried."
+          );
+          return existing[0].id;
+        }
+
+        const request = {
+          prompt: video.prompt,
+          voice: video.voice,
+          source_video_id: video.source_video_id,
+          retry_of_video_id: video.id,
+          options: video.options,
+        };
+
+        // Another video is generating - wait in the local queue instead
+        if (shouldQueue) {
+          enqueue(request);
+          Alert.alert(
+            "Added to Queue",
+            "The retry will start automatically once the current video finishes."
+          );
+          return null;
+        }
+
+        const result = await submitVideoRequest(user.id, {
+          prompt: video.prompt,
+          ...(video.voice ? { voice: video.voice } : {}),
+          ...(video.source_video_id
+            ? { source_video_id: video.source_video_id }
+            : {}),
+          ...(video.options ? { options: video.options } : {}),
+          retry_of_video_id: video.id,
+        });
+        return result.videoId;
+      } catch (err) {
+        console.error("Error retrying video:", err);
+        Alert.alert(
+          "Retry Failed",
+          err instanceof Error
+            ? err.message
+            : "Failed to retry video. Please try again."
+        );
+        return null;
+      } finally {
+        inFlightRef.current.delete(video.id);
+        setRetryingId(null);
+      }
+    },
+    [user, balance, retriedIds, shouldQueue, enqueue]
+  );
+
+  const isRetried = useCallback(
+    (videoId: string) => retriedIds.has(videoId),
+    [retriedIds]
+  );
+
+  return { retryingId, retryVideo, isRetried };
+}
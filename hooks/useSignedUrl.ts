@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from "react";
+import { useVideo } from "../contexts/VideoContext";
+import { msUntilRefresh, signedUrlManager } from "../lib/signedUrlManager";
+
+/**
+ * Signed URL for a completed video. Signs only while `enabled` (e.g. the
+ * item is on screen) and re-signs shortly before the URL expires.
+ * `ensureUrl` signs on demand for actions such as downloading.
+ */
+export function useSignedUrl(videoId: string, { enabled = true } = {}) {
+  const video = useVideo(videoId);
+  const bucketPath =
+    video?.status === "completed" ? video.bucket_path ?? null : null;
+  const signedAt = video?.signed_url ? video.signed_url_created_at : undefined;
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ensureUrl = useCallback(async () => {
+    if (!bucketPath) {
+      throw new Error("Video is not ready yet");
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      return await signedUrlManager.ensure(bucketPath, { filename: videoId });
+    } catch (err) {
+      console.error("Error signing video URL:", err);
+      setError(err instanceof Error ? err.message : "Failed to sign video URL");
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, [bucketPath, videoId]);
+
+  // Sign now if needed, then again shortly before the URL expires
+  useEffect(() => {
+    if (!enabled || !bucketPath) {
+      return;
+    }
+
+    const delay = signedAt ? Math.max(0, msUntilRefresh(signedAt)) : 0;
+    const timeoutId = setTimeout(() => {
+      ensureUrl().catch(() => {});
+    }, delay);
+
+    return () => clearTimeout(timeoutId);
+  }, [enabled, bucketPath, signedAt, ensureUrl]);
+
+  return {
+    url: video?.signed_url ?? null,
+    loading,
+    error,
+    ensureUrl,
+  };
+}
@@ -0,0 +1,55 @@
+import { useState, useEffect } from "react";
+import { supabase } from "../lib/supabase";
+import { useAuthContext } from "../contexts/AuthContext";
+import {
+  DEFAULT_GENERATION_MS,
+  typicalGenerationMs,
+} from "../utils/videoProgress";
+
+// Recent videos reflect the current pipeline speed best
+const HISTORY_SIZE = 20;
+
+/**
+ * How long the user's videos usually take from creation to completion,
+ * in milliseconds. Falls back to the advertised estimate until there is
+ * history to go on.
+ */
+export function useTypicalGenerationTime() {
+  const { user } = useAuthContext();
+  const [typicalMs, setTypicalMs] = useState<number | null>(null);
+
+  useEffect(() => {
+    setTypicalMs(null);
+    if (!user) {
+      return;
+    }
+
+    let cancelled = false;
+    supabase
+      .from("videos")
+      .select("created_at, completed_at")
+      .eq("user_id", user.id)
+      .eq("status", "completed")
+      .not("completed_at", "is", null)
+      .order("completed_at", { ascending: false })
+      .limit(HISTORY_SIZE)
+      .then(({ data, error }) => {
+        if (error) {
+          console.warn("Error fetching generation history:", error);
+          return;
+        }
+        if (!cancelled) {
+          setTypicalMs(typicalGenerationMs(data ?? []));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  return {
+    typicalMs: typicalMs ?? DEFAULT_GENERATION_MS,
+    fromHistory: typicalMs !== null,
+  };
+}
@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { PageCursor, useVideoActions } from "../contexts/VideoContext";
+import { VIDEOS_PER_PAGE } from "../constants/constants";
+
+const SEARCH_DEBOUNCE_MS = 350;
+
+/**
+ * Debounced server-side search over video prompts with its own
+ * pagination. Typing cancels the request for the previous text.
+ */
+export function useVideoSearch(query: string) {
+  const { searchVideos, clearSearchResults } = useVideoActions();
+  const [ids, setIds] = useState<string[]>([]);
+  // The text the current results belong to
+  const [resultsQuery, setResultsQuery] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cursorRef = useRef<PageCursor | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const term = query.trim();
+
+  const cancelPending = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  };
+
+  const runSearch = useCallback(
+    async (text: string, reset: boolean) => {
+      cancelPending();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
+      if (reset) {
+        setLoading(true);
+        cursorRef.current = null;
+      } else {
+        setLoadingMore(true);
+      }
+      setError(null);
+
+      try {
+        const results = await searchVideos(
+          text,
+          reset ? null : cursorRef.current,
+          controller.signal
+        );
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        const lastRow = results[results.length - 1];
+        if (lastRow) {
+          cursorRef.current = {
+            created_at: lastRow.created_at,
+            id: lastRow.id,
+          };
+        }
+        setHasMore(results.length === VIDEOS_PER_PAGE);
+        setResultsQuery(text);
+        setIds((prev) => {
+          const resultIds = results.map((video) => video.id);
+          if (reset) {
+            return resultIds;
+          }
+          const existing = new Set(prev);
+          return [...prev, ...resultIds.filter((id) => !existing.has(id))];
+        });
+      } catch (err) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.error("Error searching videos:", err);
+        setError(err instanceof Error ? err.message : "Failed to search");
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setLoading(false);
+          setLoadingMore(false);
+        }
+      }
+    },
+    [searchVideos]
+  );
+
+  useEffect(() => {
+    cancelPending();
+    setLoadingMore(false);
+
+    if (!term) {
+      clearSearchResults();
+      setIds([]);
+      setResultsQuery("");
+      setHasMore(false);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    // Show the spinner while waiting out the debounce
+    setLoading(true);
+    const timeoutId = setTimeout(
+      () => runSearch(term, true),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timeoutId);
+  }, [term, runSearch, clearSearchResults]);
+
+  useEffect(
+    () => () => {
+      cancelPending();
+      clearSearchResults();
+    },
+    [clearSearchResults]
+  );
+
+  const loadMore = useCallback(() => {
+    if (!hasMore || loading || loadingMore || !resultsQuery) {
+      return;
+    }
+    runSearch(resultsQuery, false);
+  }, [hasMore, loading, loadingMore, resultsQuery, runSearch]);
+
+  return {
+    ids,
+    resultsQuery,
+    loading,
+    loadingMore,
+    hasMore,
+    error,
+    loadMore,
+  };
+}
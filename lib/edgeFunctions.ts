@@ -0,0 +1,577 @@
+import Constants from "expo-constants";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+import type { AspectRatio, GenerationOptions } from "../constants/constants";
+import { buildStubScriptPreview } from "./scriptPreviewStub";
+
+export const EDGE_FUNCTION_TIMEOUT_MS = 30000; // 30 seconds
+const SESSION_REFRESH_THRESHOLD_MS = 5 * 60 * 1000; // 5 minutes
+
+export type EdgeFunctionErrorKind =
+  | "network"
+  | "timeout"
+  | "aborted"
+  | "auth"
+  | "validation"
+  | "server";
+
+const DEFAULT_ERROR_MESSAGES: Record<EdgeFunctionErrorKind, string> = {
+  network:
+    "Network request failed. Please check your internet connection and try again.",
+  timeout:
+    "Request timed out. The server may be slow or unreachable. Please try again.",
+  aborted: "Request was cancelled.",
+  auth: "User not authenticated",
+  validation: "The request was rejected. Please check your input.",
+  server: "Something went wrong on our side. Please try again.",
+};
+
+/**
+ * Error thrown by every edge function call.
+ * `kind` lets callers decide how to react without parsing messages.
+ */
+export class EdgeFunctionError extends Error {
+  readonly kind: EdgeFunctionErrorKind;
+  readonly functionName: string;
+  readonly status: number | null;
+
+  constructor(
+    kind: EdgeFunctionErrorKind,
+    functionName: string,
+    message?: string,
+    status: number | null = null
+  ) {
+    super(message || DEFAULT_ERROR_MESSAGES[kind]);
+    this.name = "EdgeFunctionError";
+    this.kind = kind;
+    this.functionName = functionName;
+    this.status = status;
+  }
+}
+
+export function isEdgeFunctionError(err: unknown): err is EdgeFunctionError {
+  return err instanceof EdgeFunctionError;
+}
+
+// ---- Per-function request/response types ----
+
+export interface ScriptScene {
+  description: string;
+  duration_seconds: number;
+}
+
+export interface VideoScript {
+  narration: string;
+  scenes: ScriptScene[];
+}
+
+export interface CreateVideoRequest {
+  prompt: string;
+  voice?: string;
+  /** Video this request remixes, if any */
+  source_video_id?: string;
+  /** Failed video this request retries; the server decides the charge */
+  retry_of_video_id?: string;
+  options?: GenerationOptions;
+  /** Script the user approved; the server skips generating its own */
+  script?: VideoScript;
+  /** Client-generated key; the server charges at most once per key */
+  idempotency_key: string;
+}
+
+export interface CreateVideoResponse {
+  ok: boolean;
+  error?: string;
+  video_id?: string;
+  status?: string;
+  /** Set when the idempotency key was already accepted earlier */
+  duplicate?: boolean;
+}
+
+export interface CancelVideoRequest {
+  video_id: string;
+}
+
+export interface CancelVideoResponse {
+  ok: boolean;
+  error?: string;
+  /** Amount credited back to the balance */
+  refunded_amount?: number;
+  /** True when the server removed the row instead of marking it cancelled */
+  deleted?: boolean;
+}
+
+export interface ScriptPreviewRequest {
+  prompt: string;
+  voice?: string;
+  options?: GenerationOptions;
+}
+
+export interface ScriptPreviewResponse {
+  ok: boolean;
+  error?: string;
+  script?: VideoScript;
+}
+
+export interface OptionChoice<T extends string = string> {
+  id: T;
+  label: string;
+}
+
+export interface GenerationOptionsCatalog {
+  aspect_ratios: OptionChoice<AspectRatio>[];
+  durations: number[]; // Allowed target durations in seconds
+  caption_styles: OptionChoice[];
+  music_tracks: OptionChoice[];
+  languages: OptionChoice[];
+  defaults: GenerationOptions;
+}
+
+export interface SignedUrlRequest {
+  bucket: string;
+  path: string;
+  expires?: number;
+  filename?: string;
+}
+
+export interface SignedUrlResponse {
+  url: string;
+}
+
+export interface SignedUrlBatchItem {
+  path: string;
+  filename?: string;
+}
+
+export interface SignedUrlBatchRequest {
+  bucket: string;
+  items: SignedUrlBatchItem[];
+  expires?: number;
+}
+
+/** Either `url` or `error` is set for every requested path */
+export interface SignedUrlBatchResult {
+  path: string;
+  url?: string;
+  error?: string;
+}
+
+export interface SignedUrlBatchResponse {
+  results: SignedUrlBatchResult[];
+}
+
+export interface QueueStatusRequest {
+  video_ids: string[];
+}
+
+/** Null fields mean the server can't tell right now */
+export interface QueueStatusEntry {
+  video_id: string;
+  /** 1 for the next video to start */
+  position: number | null;
+  estimated_start_at: string | null;
+}
+
+export interface QueueStatusResponse {
+  entries: QueueStatusEntry[];
+}
+
+interface EdgeFunctionMap {
+  "create-video": {
+    request: CreateVideoRequest & { refresh_token: string };
+    response: CreateVideoResponse;
+  };
+  "smooth-handler": {
+    request: SignedUrlRequest;
+    response: SignedUrlResponse;
+  };
+  "sign-urls": {
+    request: SignedUrlBatchRequest;
+    response: SignedUrlBatchResponse;
+  };
+  "generation-options": {
+    request: Record<string, never>;
+    response: GenerationOptionsCatalog;
+  };
+  "cancel-video": {
+    request: CancelVideoRequest;
+    response: CancelVideoResponse;
+  };
+  "script-preview": {
+    request: ScriptPreviewRequest;
+    response: ScriptPreviewResponse;
+  };
+  "queue-status": {
+    request: QueueStatusRequest;
+    response: QueueStatusResponse;
+  };
+}
+
+export type EdgeFunctionName = keyof EdgeFunctionMap;
+
+export interface InvokeOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+// ---- Internals ----
+
+function getFunctionsBaseUrl(functionName: string): string {
+  // Get Supabase URL from environment variables first
+  const supabaseUrl = (
+    process.env.EXPO_PUBLIC_SUPABASE_URL ||
+    Constants.expoConfig?.extra?.supabaseUrl ||
+    ""
+  ).trim();
+
+  if (!supabaseUrl) {
+    throw new EdgeFunctionError(
+      "validation",
+      functionName,
+      "Supabase URL not configured"
+    );
+  }
+
+  const baseUrl = /^https?:\/\//.test(supabaseUrl)
+    ? supabaseUrl
+    : `https://${supabaseUrl}`;
+
+  return `${baseUrl.replace(/\/+$/, "")}/functions/v1`;
+}
+
+/**
+ * Returns a session that is valid for at least a few more minutes.
+ * Refreshes only when close to expiry and falls back to the current
+ * session if the refresh itself fails.
+ */
+async function getFreshSession(functionName: string): Promise<Session> {
+  const { data } = await supabase.auth.getSession();
+  const session = data?.session;
+
+  if (!session?.access_token) {
+    throw new EdgeFunctionError("auth", functionName);
+  }
+
+  const expiresAt = session.expires_at ? session.expires_at * 1000 : null;
+  if (!expiresAt || expiresAt - Date.now() >= SESSION_REFRESH_THRESHOLD_MS) {
+    return session;
+  }
+
+  try {
+    const {
+      data: { session: refreshedSession },
+      error,
+    } = await supabase.auth.refreshSession();
+
+    if (!error && refreshedSession) {
+      return refreshedSession;
+    }
+  } catch {
+    // Fall back to the current session on network errors
+  }
+
+  return session;
+}
+
+function kindForStatus(status: number): EdgeFunctionErrorKind {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 408 || status === 504) return "timeout";
+  if (status >= 400 && status < 500) return "validation";
+  return "server";
+}
+
+async function readErrorMessage(res: Response): Promise<string | undefined> {
+  const text = await res.text().catch(() => "");
+  if (!text) return undefined;
+
+  try {
+    const json = JSON.parse(text);
+    return json?.error || json?.message || text;
+  } catch {
+    return text;
+  }
+}
+
+async function post<N extends EdgeFunctionName>(
+  name: N,
+  session: Session,
+  body: EdgeFunctionMap[N]["request"],
+  { timeoutMs = EDGE_FUNCTION_TIMEOUT_MS, signal }: InvokeOptions
+): Promise<EdgeFunctionMap[N]["response"]> {
+  const endpoint = `${getFunctionsBaseUrl(name)}/${name}`;
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onCallerAbort = () => controller.abort();
+
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener("abort", onCallerAbort);
+  }
+
+  try {
+    let res: Response;
+    try {
+      res = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch {
+      if (timedOut) throw new EdgeFunctionError("timeout", name);
+      if (controller.signal.aborted) {
+        throw new EdgeFunctionError("aborted", name);
+      }
+      throw new EdgeFunctionError("network", name);
+    }
+
+    if (!res.ok) {
+      const message = await readErrorMessage(res);
+      throw new EdgeFunctionError(
+        kindForStatus(res.status),
+        name,
+        message,
+        res.status
+      );
+    }
+
+    try {
+      return (await res.json()) as EdgeFunctionMap[N]["response"];
+    } catch {
+      throw new EdgeFunctionError(
+        "server",
+        name,
+        "Invalid response from server",
+        res.status
+      );
+    }
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onCallerAbort);
+  }
+}
+
+// ---- Public API ----
+
+/**
+ * Calls a Supabase edge function with the current user's bearer token.
+ * Every failure is surfaced as an EdgeFunctionError.
+ */
+export async function invokeEdgeFunction<N extends EdgeFunctionName>(
+  name: N,
+  body: EdgeFunctionMap[N]["request"],
+  options: InvokeOptions = {}
+): Promise<EdgeFunctionMap[N]["response"]> {
+  const session = await getFreshSession(name);
+  return post(name, session, body, options);
+}
+
+/**
+ * Starts video generation. The edge function charges the user,
+ * inserts the video row and hands it off to the render pipeline.
+ */
+export async function createVideo(
+  request: CreateVideoRequest,
+  options: InvokeOptions = {}
+): Promise<CreateVideoResponse> {
+  // The refresh token must come from the same session that signs the
+  // request, since refreshing rotates it.
+  const session = await getFreshSession("create-video");
+
+  const result = await post(
+    "create-video",
+    session,
+    { ...request, refresh_token: session.refresh_token },
+    options
+  );
+
+  if (!result.ok) {
+    throw new EdgeFunctionError(
+      "server",
+      "create-video",
+      result.error || "Failed to create video"
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Cancels a video that has not started processing and refunds its price.
+ */
+export async function cancelVideo(
+  request: CancelVideoRequest,
+  options?: InvokeOptions
+): Promise<CancelVideoResponse> {
+  const result = await invokeEdgeFunction("cancel-video", request, options);
+
+  if (!result.ok) {
+    throw new EdgeFunctionError(
+      "server",
+      "cancel-video",
+      result.error || "Failed to cancel video"
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Returns a signed download URL for a file in storage.
+ */
+export async function getSignedUrl(
+  request: SignedUrlRequest,
+  options?: InvokeOptions
+): Promise<string> {
+  const result = await invokeEdgeFunction("smooth-handler", request, options);
+
+  if (!result?.url) {
+    throw new EdgeFunctionError(
+      "server",
+      "smooth-handler",
+      "No signed URL returned"
+    );
+  }
+
+  return result.url;
+}
+
+// Cleared once the server reports that it has no batch endpoint
+let batchSigningSupported = true;
+
+/**
+ * Signs many files in one round trip. Failures are reported per path
+ * instead of failing the whole batch. Falls back to one `smooth-handler`
+ * call per path when the server does not support batching.
+ */
+export async function getSignedUrls(
+  request: SignedUrlBatchRequest,
+  options?: InvokeOptions
+): Promise<SignedUrlBatchResult[]> {
+  if (request.items.length === 0) {
+    return [];
+  }
+
+  if (batchSigningSupported) {
+    try {
+      const result = await invokeEdgeFunction("sign-urls", request, options);
+      const byPath = new Map(
+        (result?.results ?? []).map((item) => [item.path, item])
+      );
+
+      return request.items.map(({ path }) => {
+        const item = byPath.get(path);
+        return item?.url
+          ? { path, url: item.url }
+          : { path, error: item?.error || "No signed URL returned" };
+      });
+    } catch (err) {
+      if (!isEdgeFunctionError(err) || err.status !== 404) {
+        throw err;
+      }
+      batchSigningSupported = false;
+    }
+  }
+
+  const { bucket, expires } = request;
+  return Promise.all(
+    request.items.map(async ({ path, filename }) => {
+      try {
+        const url = await getSignedUrl(
+          { bucket, path, expires, filename },
+          options
+        );
+        return { path, url };
+      } catch (err) {
+        return {
+          path,
+          error: err instanceof Error ? err.message : "Failed to sign URL",
+        };
+      }
+    })
+  );
+}
+
+// Cleared once the server reports that it has no queue endpoint
+let queueStatusSupported = true;
+
+/**
+ * Queue position and estimated start of queued videos, one entry per
+ * requested id. Positions are unknown when the server has no queue
+ * endpoint or doesn't list a video.
+ */
+export async function getQueueStatus(
+  request: QueueStatusRequest,
+  options?: InvokeOptions
+): Promise<QueueStatusEntry[]> {
+  let entries: QueueStatusEntry[] = [];
+
+  if (queueStatusSupported && request.video_ids.length > 0) {
+    try {
+      const result = await invokeEdgeFunction("queue-status", request, options);
+      entries = result?.entries ?? [];
+    } catch (err) {
+      if (!isEdgeFunctionError(err) || err.status !== 404) {
+        throw err;
+      }
+      queueStatusSupported = false;
+    }
+  }
+
+  const byId = new Map(entries.map((entry) => [entry.video_id, entry]));
+  return request.video_ids.map(
+    (video_id) =>
+      byId.get(video_id) ?? {
+        video_id,
+        position: null,
+        estimated_start_at: null,
+      }
+  );
+}
+
+/**
+ * Returns the generation options the server currently accepts.
+ */
+export async function getGenerationOptionsCatalog(
+  options?: InvokeOptions
+): Promise<GenerationOptionsCatalog> {
+  return invokeEdgeFunction("generation-options", {}, options);
+}
+
+/**
+ * Generates the narration and scene list for a prompt without charging.
+ * Set EXPO_PUBLIC_SCRIPT_PREVIEW_STUB=true to use a local stub instead.
+ */
+export async function previewScript(
+  request: ScriptPreviewRequest,
+  options?: InvokeOptions
+): Promise<VideoScript> {
+  if (process.env.EXPO_PUBLIC_SCRIPT_PREVIEW_STUB === "true") {
+    const script = await buildStubScriptPreview(request);
+    if (options?.signal?.aborted) {
+      throw new EdgeFunctionError("aborted", "script-preview");
+    }
+    return script;
+  }
+
+  const result = await invokeEdgeFunction("script-preview", request, options);
+
+  if (!result.ok || !result.script) {
+    throw new EdgeFunctionError(
+      "server",
+      "script-preview",
+      result.error || "Failed to preview script"
+    );
+  }
+
+  return result.script;
+}
@@ -0,0 +1,195 @@
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+
+export type RealtimeConnectionState =
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "disconnected";
+
+const RECONNECT_BASE_DELAY_MS = 1000; // 1 second
+const RECONNECT_MAX_DELAY_MS = 30000; // 30 seconds
+
+/**
+ * Exponential backoff with jitter, so clients don't all reconnect at the
+ * same moment after an outage.
+ */
+export function reconnectDelay(attempt: number): number {
+  const delay = Math.min(
+    RECONNECT_BASE_DELAY_MS * 2 ** attempt,
+    RECONNECT_MAX_DELAY_MS
+  );
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+interface ResilientChannelOptions {
+  topic: string;
+  /** Prefix for log messages, e.g. "[VideoContext]" */
+  logPrefix: string;
+  /** Registers the broadcast handlers on a fresh channel */
+  setup: (channel: RealtimeChannel) => RealtimeChannel;
+  /**
+   * Called on every successful subscribe. `reconnected` is true when
+   * events may have been missed since the previous subscription.
+   */
+  onSubscribed?: (reconnected: boolean) => void;
+  onStateChange?: (state: RealtimeConnectionState) => void;
+}
+
+/**
+ * Subscribes to a private broadcast channel and resubscribes with
+ * backoff whenever the channel errors, times out or closes unexpectedly.
+ * Returns a function that removes the channel for good.
+ */
+export function subscribeResilient({
+  topic,
+  logPrefix,
+  setup,
+  onSubscribed,
+  onStateChange,
+}: ResilientChannelOptions): () => void {
+  let channel: RealtimeChannel | null = null;
+  let removal: Promise<unknown> = Promise.resolve();
+  let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let hasConnected = false;
+  let closed = false;
+
+  const connect = () => {
+    onStateChange?.(hasConnected ? "reconnecting" : "connecting");
+
+    const current = setup(
+      supabase.channel(topic, { config: { private: true } })
+    );
+    channel = current;
+
+    current.subscribe((status, err) => {
+      // Ignore callbacks from channels that were already replaced
+      if (closed || channel !== current) {
+        return;
+      }
+
+      if (status === "SUBSCRIBED") {
+        attempt = 0;
+        const reconnected = hasConnected;
+        hasConnected = true;
+        onStateChange?.("connected");
+        onSubscribed?.(reconnected);
+      } else if (
+        status === "CHANNEL_ERROR" ||
+        status === "TIMED_OUT" ||
+        status === "CLOSED"
+      ) {
+        console.warn(`${logPrefix} Realtime connection ${status}`, err ?? "");
+        scheduleReconnect();
+      }
+    });
+  };
+
+  const scheduleReconnect = () => {
+    if (retryTimeout) {
+      return;
+    }
+
+    // Drop the broken channel now so the client doesn't rejoin it too
+    if (channel) {
+      removal = supabase.removeChannel(channel);
+      channel = null;
+    }
+
+    onStateChange?.("reconnecting");
+    const delay = reconnectDelay(attempt);
+    attempt += 1;
+
+    retryTimeout = setTimeout(async () => {
+      retryTimeout = null;
+      await removal.catch(() => {});
+      if (!closed) {
+        connect();
+      }
+    }, delay);
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    if (retryTimeout) {
+      clearTimeout(retryTimeout);
+      retryTimeout = null;
+    }
+    if (channel) {
+      supabase.removeChannel(channel);
+      channel = null;
+    }
+    onStateChange?.("disconnected");
+  };
+}
+
+// ---- Broadcast payloads ----
+
+export type FieldType = "string" | "number" | "boolean" | "object";
+
+/** A trailing "?" also allows null or a missing value */
+export type FieldSpec = FieldType | `${FieldType}?`;
+
+/**
+ * Expected type of each column a consumer relies on. A list of strings
+ * limits the column to those values.
+ */
+export type RecordSchema<T> = {
+  [K in keyof T]?: FieldSpec | readonly string[];
+};
+
+export type BroadcastOperation = "INSERT" | "UPDATE" | "DELETE";
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Finds the row in a broadcast event. `realtime.broadcast_changes` sends
+ * `{ payload: { record, old_record, ... } }`; older triggers sent the row
+ * as the payload itself or as the event.
+ */
+export function extractBroadcastRecord(
+  event: unknown,
+  operation: BroadcastOperation
+): Record<string, unknown> | null {
+  const payload = isObject(event) ? event.payload : undefined;
+
+  if (isObject(payload)) {
+    if (isObject(payload.record)) {
+      return payload.record;
+    }
+    if (operation === "DELETE" && isObject(payload.old_record)) {
+      return payload.old_record;
+    }
+    if ("id" in payload) {
+      return payload;
+    }
+  }
+
+  if (isObject(event) && "id" in event) {
+    return event;
+  }
+
+  return null;
+}
+
+export function matchesSchema<T>(
+  record: Record<string, unknown>,
+  schema: RecordSchema<T>
+): record is Record<string, unknown> & T {
+  return Object.entries(schema).every(([key, spec]) => {
+    const value = record[key];
+    if (Array.isArray(spec)) {
+      return spec.includes(value);
+    }
+    const optional = (spec as FieldSpec).endsWith("?");
+    if (value === null || value === undefined) {
+      return optional;
+    }
+    return typeof value === (spec as FieldSpec).replace("?", "");
+  });
+}
@@ -0,0 +1,35 @@
+import type { ScriptPreviewRequest, VideoScript } from "./edgeFunctions";
+
+const STUB_DELAY_MS = 800;
+const DEFAULT_DURATION_SECONDS = 30;
+const MAX_SCENES = 4;
+
+/**
+ * Local stand-in for the script-preview edge function, for development
+ * without a deployed backend. Splits the prompt into sentences and turns
+ * each one into a scene.
+ */
+export async function buildStubScriptPreview(
+  request: ScriptPreviewRequest
+): Promise<VideoScript> {
+  await new Promise((resolve) => setTimeout(resolve, STUB_DELAY_MS));
+
+  const sentences = (request.prompt.match(/[^.!?]+[.!?]*/g) ?? [])
+    .map((sentence) => sentence.trim())
+    .filter(Boolean)
+    .slice(0, MAX_SCENES);
+  const totalSeconds =
+    request.options?.target_duration ?? DEFAULT_DURATION_SECONDS;
+  const sceneSeconds = Math.max(
+    1,
+    Math.round(totalSeconds / Math.max(sentences.length, 1))
+  );
+
+  return {
+    narration: sentences.join(" "),
+    scenes: sentences.map((sentence) => ({
+      description: `Visuals for: ${sentence}`,
+      duration_seconds: sceneSeconds,
+    })),
+  };
+}
@@ -0,0 +1,168 @@
+import {
+  getSignedUrls,
+  SignedUrlBatchItem,
+  SignedUrlBatchResult,
+} from "./edgeFunctions";
+import {
+  SIGNED_URL_BATCH_SIZE,
+  SIGNED_URL_EXPIRES,
+  VIDEOS_BUCKET,
+} from "../constants/constants";
+
+// Refresh this long before a signed URL actually expires
+export const SIGNED_URL_REFRESH_MARGIN_MS = 15 * 60 * 1000; // 15 minutes
+
+export interface SignedUrlEntry {
+  url: string;
+  createdAt: number; // Milliseconds
+}
+
+type Listener = (bucketPath: string, entry: SignedUrlEntry) => void;
+
+interface QueuedRequest {
+  filename?: string;
+  resolve: (url: string) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Milliseconds until a URL signed at `createdAt` should be refreshed.
+ * Zero or less means it is due now.
+ */
+export function msUntilRefresh(createdAt: number): number {
+  return (
+    createdAt +
+    SIGNED_URL_EXPIRES * 1000 -
+    SIGNED_URL_REFRESH_MARGIN_MS -
+    Date.now()
+  );
+}
+
+/**
+ * Signs video files on demand. Keeps one URL per bucket path, shares
+ * in-flight requests for the same path and only re-signs when a URL is
+ * close to expiring. Paths requested in the same tick are signed in one
+ * batch request.
+ */
+class SignedUrlManager {
+  private entries = new Map<string, SignedUrlEntry>();
+  private inFlight = new Map<string, Promise<string>>();
+  private queue = new Map<string, QueuedRequest>();
+  private flushTimeout: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<Listener>();
+
+  getEntry(bucketPath: string): SignedUrlEntry | undefined {
+    const entry = this.entries.get(bucketPath);
+    return entry && msUntilRefresh(entry.createdAt) > 0 ? entry : undefined;
+  }
+
+  /** Adopts a URL signed earlier, e.g. one restored from the offline cache */
+  seed(bucketPath: string, entry: SignedUrlEntry) {
+    const existing = this.entries.get(bucketPath);
+    if (!existing || existing.createdAt < entry.createdAt) {
+      this.entries.set(bucketPath, entry);
+    }
+  }
+
+  /**
+   * Returns a URL that stays valid for at least the refresh margin,
+   * signing a new one only when needed.
+   */
+  ensure(
+    bucketPath: string,
+    { filename, force = false }: { filename?: string; force?: boolean } = {}
+  ): Promise<string> {
+    const fresh = force ? undefined : this.getEntry(bucketPath);
+    if (fresh) {
+      return Promise.resolve(fresh.url);
+    }
+
+    const pending = this.inFlight.get(bucketPath);
+    if (pending) {
+      return pending;
+    }
+
+    const request = new Promise<string>((resolve, reject) => {
+      this.queue.set(bucketPath, { filename, resolve, reject });
+    }).finally(() => {
+      this.inFlight.delete(bucketPath);
+    });
+
+    this.inFlight.set(bucketPath, request);
+    if (!this.flushTimeout) {
+      this.flushTimeout = setTimeout(() => this.flush(), 0);
+    }
+    return request;
+  }
+
+  /**
+   * Signs several paths at once. Never rejects; failures are reported
+   * per path.
+   */
+  ensureMany(
+    items: SignedUrlBatchItem[],
+    { force = false }: { force?: boolean } = {}
+  ): Promise<SignedUrlBatchResult[]> {
+    return Promise.all(
+      items.map(({ path, filename }) =>
+        this.ensure(path, { filename, force }).then(
+          (url) => ({ path, url }),
+          (err: unknown) => ({
+            path,
+            error: err instanceof Error ? err.message : "Failed to sign URL",
+          })
+        )
+      )
+    );
+  }
+
+  private async flush() {
+    this.flushTimeout = null;
+    const queued = Array.from(this.queue.entries());
+    this.queue.clear();
+
+    for (let i = 0; i < queued.length; i += SIGNED_URL_BATCH_SIZE) {
+      const chunk = queued.slice(i, i + SIGNED_URL_BATCH_SIZE);
+
+      try {
+        const results = await getSignedUrls({
+          bucket: VIDEOS_BUCKET,
+          items: chunk.map(([path, { filename }]) => ({ path, filename })),
+          expires: SIGNED_URL_EXPIRES,
+        });
+        const byPath = new Map(results.map((result) => [result.path, result]));
+
+        chunk.forEach(([path, { resolve, reject }]) => {
+          const result = byPath.get(path);
+          if (!result?.url) {
+            reject(new Error(result?.error || "No signed URL returned"));
+            return;
+          }
+
+          const entry = { url: result.url, createdAt: Date.now() };
+          this.entries.set(path, entry);
+          this.listeners.forEach((listener) => listener(path, entry));
+          resolve(result.url);
+        });
+      } catch (err) {
+        const error =
+          err instanceof Error ? err : new Error("Failed to sign URLs");
+        chunk.forEach(([, { reject }]) => reject(error));
+      }
+    }
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear() {
+    this.entries.clear();
+    this.inFlight.clear();
+  }
+}
+
+export const signedUrlManager = new SignedUrlManager();
@@ -0,0 +1,185 @@
+import type { VideoRecord } from "../constants/constants";
+import { VideoStatus, getVideoStatusInfo } from "../utils/videoStatus";
+
+export interface VideoStoreState {
+  /** Same order as `list` */
+  ids: string[];
+  /** The paginated list plus any detached videos */
+  byId: Record<string, VideoRecord>;
+  list: VideoRecord[];
+  /**
+   * Status of every queued or processing video, whether or not the list
+   * filters show it
+   */
+  active: Record<string, VideoStatus>;
+}
+
+type Listener = () => void;
+
+const EMPTY_STATE: VideoStoreState = {
+  ids: [],
+  byId: {},
+  list: [],
+  active: {},
+};
+
+export function shallowEqualArrays<T>(a: readonly T[], b: readonly T[]) {
+  return a.length === b.length && a.every((item, i) => Object.is(item, b[i]));
+}
+
+/**
+ * Video list keyed by id. Updates keep the references of unchanged
+ * videos, so selectors for one video only fire when that video changes.
+ *
+ * Videos loaded outside the paginated list, such as search results, are
+ * kept as detached videos. They can be selected by id and receive the
+ * same updates, but never show up in `ids` or `list`.
+ *
+ * Active videos are tracked apart from the list, since rules such as one
+ * generation at a time must hold whatever the list currently shows.
+ */
+export class VideoStore {
+  private state = EMPTY_STATE;
+  private detached: Record<string, VideoRecord> = {};
+  private listeners = new Set<Listener>();
+  // When `trackStatus` last changed each video, in milliseconds
+  private statusChangedAt: Record<string, number> = {};
+
+  getState = () => this.state;
+
+  getVideos = () => this.state.list;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /** Same contract as a React state setter for `VideoRecord[]` */
+  setVideos = (
+    update: VideoRecord[] | ((prev: VideoRecord[]) => VideoRecord[])
+  ) => {
+    const list =
+      typeof update === "function" ? update(this.state.list) : update;
+    if (list !== this.state.list) {
+      this.commit(list);
+    }
+  };
+
+  /**
+   * Adds or updates videos that are not part of the paginated list. With
+   * `replace`, the previous detached videos are dropped first.
+   */
+  addDetached = (videos: VideoRecord[], { replace = false } = {}) => {
+    if (videos.length === 0 && !replace) {
+      return;
+    }
+    this.detached = replace ? {} : { ...this.detached };
+    videos.forEach((video) => {
+      this.detached[video.id] = video;
+    });
+    this.commit(this.state.list);
+  };
+
+  /** Applies `update` to every known video, listed or detached */
+  updateVideos = (update: (video: VideoRecord) => VideoRecord) => {
+    let changed = false;
+    const list = this.state.list.map((video) => {
+      const next = update(video);
+      changed = changed || next !== video;
+      return next;
+    });
+
+    const detached: Record<string, VideoRecord> = {};
+    Object.values(this.detached).forEach((video) => {
+      const next = update(video);
+      changed = changed || next !== video;
+      detached[video.id] = next;
+    });
+
+    if (changed) {
+      this.detached = detached;
+      this.commit(list);
+    }
+  };
+
+  /** Drops every detached video, e.g. when a search is cleared */
+  clearDetached = () => {
+    if (Object.keys(this.detached).length > 0) {
+      this.addDetached([], { replace: true });
+    }
+  };
+
+  removeVideo = (id: string) => {
+    if (!this.state.byId[id]) {
+      return;
+    }
+    const { [id]: _removed, ...detached } = this.detached;
+    this.detached = detached;
+    this.commit(this.state.list.filter((video) => video.id !== id));
+  };
+
+  /**
+   * Replaces the active videos with a server snapshot requested at
+   * `requestedAt`. Changes tracked after that time are newer and kept.
+   */
+  setActive = (active: Record<string, VideoStatus>, requestedAt: number) => {
+    const next = { ...active };
+    Object.entries(this.statusChangedAt).forEach(([id, changedAt]) => {
+      if (changedAt < requestedAt) {
+        return;
+      }
+      if (id in this.state.active) {
+        next[id] = this.state.active[id];
+      } else {
+        delete next[id];
+      }
+    });
+    this.commit(this.state.list, next);
+  };
+
+  /**
+   * Records a status change. Videos that settled, or moved to a status
+   * this build doesn't know, leave the active set.
+   */
+  trackStatus = (id: string, status: VideoStatus | null) => {
+    // Unknown statuses get inactive status info, so they count as settled
+    const isActive = status !== null && getVideoStatusInfo(status).active;
+    this.statusChangedAt[id] = Date.now();
+    if (
+      isActive ? this.state.active[id] === status : !(id in this.state.active)
+    ) {
+      return;
+    }
+    const { [id]: _previous, ...active } = this.state.active;
+    this.commit(
+      this.state.list,
+      isActive ? { ...active, [id]: status } : active
+    );
+  };
+
+  /** Forgets every video, e.g. on sign-out */
+  clear = () => {
+    this.detached = {};
+    this.statusChangedAt = {};
+    this.commit([], {});
+  };
+
+  private commit(list: VideoRecord[], active = this.state.active) {
+    // Listed videos win over detached copies of the same row
+    const byId: Record<string, VideoRecord> = { ...this.detached };
+    const ids = list.map((video) => {
+      byId[video.id] = video;
+      return video.id;
+    });
+
+    this.state = {
+      ids: shallowEqualArrays(ids, this.state.ids) ? this.state.ids : ids,
+      byId,
+      list,
+      active,
+    };
+    this.listeners.forEach((listener) => listener());
+  }
+}
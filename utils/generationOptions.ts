@@ -0,0 +1,95 @@
+import { GenerationOptions } from "../constants/constants";
+import { GenerationOptionsCatalog, OptionChoice } from "../lib/edgeFunctions";
+
+/**
+ * Used when the `generation-options` function is missing or fails, so
+ * videos can still be created. Offers only the server's long-standing
+ * defaults.
+ */
+export const FALLBACK_GENERATION_OPTIONS_CATALOG: GenerationOptionsCatalog = {
+  aspect_ratios: [{ id: "9:16", label: "Portrait" }],
+  durations: [32],
+  caption_styles: [{ id: "default", label: "Default" }],
+  music_tracks: [],
+  languages: [{ id: "en", label: "English" }],
+  defaults: {
+    aspect_ratio: "9:16",
+    target_duration: 32,
+    caption_style: "default",
+    music_track_id: null,
+    language: "en",
+  },
+};
+
+/**
+ * Fills in anything the user has not chosen with the catalog defaults.
+ */
+export function resolveGenerationOptions(
+  chosen: Partial<GenerationOptions>,
+  catalog: GenerationOptionsCatalog
+): GenerationOptions {
+  return { ...catalog.defaults, ...chosen };
+}
+
+/**
+ * Checks every option against what the server advertises.
+ * Returns a user-facing error, or null when all options are allowed.
+ */
+export function validateGenerationOptions(
+  options: GenerationOptions,
+  catalog: GenerationOptionsCatalog
+): string | null {
+  const hasId = (choices: OptionChoice[], id: string) =>
+    choices.some((choice) => choice.id === id);
+
+  if (!hasId(catalog.aspect_ratios, options.aspect_ratio)) {
+    return "The selected aspect ratio is not available";
+  }
+  if (!catalog.durations.includes(options.target_duration)) {
+    return "The selected video length is not available";
+  }
+  if (!hasId(catalog.caption_styles, options.caption_style)) {
+    return "The selected caption style is not available";
+  }
+  if (
+    options.music_track_id !== null &&
+    !hasId(catalog.music_tracks, options.music_track_id)
+  ) {
+    return "The selected music track is not available";
+  }
+  if (!hasId(catalog.languages, options.language)) {
+    return "The selected language is not available";
+  }
+  return null;
+}
+
+/**
+ * Human-readable rows for showing stored options, e.g. on the video screen.
+ * Falls back to raw ids when no catalog is loaded.
+ */
+export function describeGenerationOptions(
+  options: GenerationOptions,
+  catalog?: GenerationOptionsCatalog | null
+): { label: string; value: string }[] {
+  const labelFor = (choices: OptionChoice[] | undefined, id: string) =>
+    choices?.find((choice) => choice.id === id)?.label ?? id;
+
+  return [
+    { label: "Aspect ratio", value: options.aspect_ratio },
+    { label: "Length", value: `${options.target_duration}s` },
+    {
+      label: "Captions",
+      value: labelFor(catalog?.caption_styles, options.caption_style),
+    },
+    {
+      label: "Music",
+      value: options.music_track_id
+        ? labelFor(catalog?.music_tracks, options.music_track_id)
+        : "No music",
+    },
+    {
+      label: "Language",
+      value: labelFor(catalog?.languages, options.language),
+    },
+  ];
+}
@@ -0,0 +1,64 @@
+export interface PromptTemplate {
+  id: string;
+  title: string;
+  /** Prompt text with `{{placeholder}}` fields */
+  body: string;
+  /** Built-in templates ship with the app and cannot be edited */
+  built_in: boolean;
+}
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: "builtin:product-tip",
+    title: "Product tip",
+    body: "A quick tip for {{product}} users: show how to {{task}} in three simple steps. Keep it upbeat and end with a call to try it today.",
+    built_in: true,
+  },
+  {
+    id: "builtin:daily-fact",
+    title: "Daily fact",
+    body: "Share a surprising fact about {{topic}}. Open with a hook question, explain the fact in plain words and finish with why it matters to {{audience}}.",
+    built_in: true,
+  },
+  {
+    id: "builtin:promo",
+    title: "Promo",
+    body: "Announce {{offer}} from {{brand}}. Highlight the main benefit, mention that it ends {{deadline}} and close with a clear call to action.",
+    built_in: true,
+  },
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/**
+ * Placeholder names in the order they first appear, without duplicates.
+ */
+export function extractPlaceholders(body: string): string[] {
+  const names: string[] = [];
+  for (const match of body.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+}
+
+/**
+ * Compiles a template into prompt text. Placeholders without a value are
+ * left as-is so the user can still spot and fill them in.
+ */
+export function renderTemplate(
+  body: string,
+  values: Record<string, string>
+): string {
+  return body.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const value = values[name]?.trim();
+    return value ? value : placeholder;
+  });
+}
+
+/** "target_audience" -> "Target audience" */
+export function formatPlaceholderLabel(name: string): string {
+  const words = name.replace(/[_-]+/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,67 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { SIGNED_URL_EXPIRES, VideoRecord } from "../constants/constants";
+
+const VIDEO_CACHE_KEY_PREFIX = "text2reel.videoCache";
+// Enough for the first few screens; older videos load from the server
+const CACHED_VIDEOS_LIMIT = 50;
+
+interface CachedVideoLibrary {
+  saved_at: number;
+  videos: VideoRecord[];
+}
+
+function storageKey(userId: string) {
+  return `${VIDEO_CACHE_KEY_PREFIX}:${userId}`;
+}
+
+function hasExpiredSignedUrl(video: VideoRecord, now: number) {
+  if (!video.signed_url) {
+    return false;
+  }
+  if (!video.signed_url_created_at) {
+    return true;
+  }
+  return now - video.signed_url_created_at >= SIGNED_URL_EXPIRES * 1000;
+}
+
+/**
+ * Returns the last saved video list for the user, with expired signed
+ * URLs removed so they are never handed to the player or downloader.
+ */
+export async function loadCachedVideos(
+  userId: string
+): Promise<{ videos: VideoRecord[]; savedAt: number } | null> {
+  try {
+    const raw = await AsyncStorage.getItem(storageKey(userId));
+    if (!raw) {
+      return null;
+    }
+
+    const cached = JSON.parse(raw) as CachedVideoLibrary;
+    const now = Date.now();
+    const videos = cached.videos.map((video) =>
+      hasExpiredSignedUrl(video, now)
+        ? { ...video, signed_url: null, signed_url_created_at: undefined }
+        : video
+    );
+
+    return { videos, savedAt: cached.saved_at };
+  } catch (err) {
+    console.warn("[VideoCache] Failed to load cached videos:", err);
+    return null;
+  }
+}
+
+export async function saveCachedVideos(userId: string, videos: VideoRecord[]) {
+  const cached: CachedVideoLibrary = {
+    saved_at: Date.now(),
+    videos: videos.slice(0, CACHED_VIDEOS_LIMIT),
+  };
+
+  await AsyncStorage.setItem(storageKey(userId), JSON.stringify(cached)).catch(
+    (err) => {
+      console.warn("[VideoCache] Failed to save cached videos:", err);
+    }
+  );
+}
@@ -0,0 +1,149 @@
+import { VideoRecord } from "../constants/constants";
+import { VideoStatus } from "./videoStatus";
+
+export type VideoDateRange = "all" | "7d" | "30d" | "90d";
+
+export type VideoSort = "newest" | "oldest" | "longest";
+
+export interface VideoFilters {
+  /** Empty means every status */
+  statuses: VideoStatus[];
+  dateRange: VideoDateRange;
+  /** voice_id, or null for every voice */
+  voice: string | null;
+  favoritesOnly: boolean;
+}
+
+export const DEFAULT_VIDEO_FILTERS: VideoFilters = {
+  statuses: [],
+  dateRange: "all",
+  voice: null,
+  favoritesOnly: false,
+};
+
+export const DATE_RANGE_OPTIONS: { id: VideoDateRange; label: string }[] = [
+  { id: "all", label: "Any time" },
+  { id: "7d", label: "Last 7 days" },
+  { id: "30d", label: "Last 30 days" },
+  { id: "90d", label: "Last 90 days" },
+];
+
+export const SORT_OPTIONS: { id: VideoSort; label: string }[] = [
+  { id: "newest", label: "Newest" },
+  { id: "oldest", label: "Oldest" },
+  { id: "longest", label: "Longest" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_RANGE_DAYS: Record<Exclude<VideoDateRange, "all">, number> = {
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+};
+
+/** Earliest creation time included by the range, or null for no limit */
+export function dateRangeStart(
+  range: VideoDateRange,
+  now = new Date()
+): Date | null {
+  return range === "all"
+    ? null
+    : new Date(now.getTime() - DATE_RANGE_DAYS[range] * DAY_MS);
+}
+
+export function countActiveFilters(filters: VideoFilters): number {
+  return (
+    (filters.statuses.length > 0 ? 1 : 0) +
+    (filters.dateRange !== "all" ? 1 : 0) +
+    (filters.voice ? 1 : 0) +
+    (filters.favoritesOnly ? 1 : 0)
+  );
+}
+
+/**
+ * Client-side twin of the server query, for videos that arrive over
+ * realtime instead of through a page fetch.
+ */
+export function matchesVideoFilters(
+  video: VideoRecord,
+  filters: VideoFilters,
+  now = new Date()
+): boolean {
+  const start = dateRangeStart(filters.dateRange, now);
+  return (
+    (filters.statuses.length === 0 ||
+      filters.statuses.includes(video.status)) &&
+    (!start || new Date(video.created_at) >= start) &&
+    (!filters.voice || video.voice === filters.voice) &&
+    (!filters.favoritesOnly || video.is_favorite === true)
+  );
+}
+
+/** Same order as the server query for `sort`, ties broken by id */
+export function compareVideos(
+  a: VideoRecord,
+  b: VideoRecord,
+  sort: VideoSort
+): number {
+  if (sort === "longest") {
+    // Videos without a duration yet go last
+    const byDuration = (b.duration ?? -1) - (a.duration ?? -1);
+    return byDuration || b.id.localeCompare(a.id);
+  }
+  const direction = sort === "oldest" ? 1 : -1;
+  return (
+    direction *
+    (a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id))
+  );
+}
+
+export interface VideoSection {
+  title: string;
+  /** Video ids */
+  data: string[];
+}
+
+function dateSectionTitle(createdAt: string, now: Date): string {
+  const date = new Date(createdAt);
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+
+  if (date >= startOfToday) {
+    return "Today";
+  }
+  if (date.getTime() >= startOfToday.getTime() - 6 * DAY_MS) {
+    return "This week";
+  }
+  return date.toLocaleDateString([], { month: "long", year: "numeric" });
+}
+
+/**
+ * Splits an already sorted list into sections. Date sorts get "Today",
+ * "This week" and one section per month; the duration sort gets a
+ * single section.
+ */
+export function groupVideos(
+  videos: VideoRecord[],
+  sort: VideoSort,
+  now = new Date()
+): VideoSection[] {
+  if (videos.length === 0) {
+    return [];
+  }
+  if (sort === "longest") {
+    return [{ title: "Longest first", data: videos.map((video) => video.id) }];
+  }
+
+  const sections: VideoSection[] = [];
+  videos.forEach((video) => {
+    const title = dateSectionTitle(video.created_at, now);
+    const last = sections[sections.length - 1];
+    if (last?.title === title) {
+      last.data.push(video.id);
+    } else {
+      sections.push({ title, data: [video.id] });
+    }
+  });
+  return sections;
+}
@@ -0,0 +1,40 @@
+import { VideoRecord } from "../constants/constants";
+
+/**
+ * Follows `source_video_id` links back to the original video of a remix
+ * chain. Stops at the first source that is not in `byId`.
+ */
+export function getRemixRootId(
+  video: VideoRecord,
+  byId: Map<string, VideoRecord>
+): string {
+  const visited = new Set<string>();
+  let current = video;
+
+  while (current.source_video_id && !visited.has(current.id)) {
+    visited.add(current.id);
+    const source = byId.get(current.source_video_id);
+    if (!source) {
+      return current.source_video_id;
+    }
+    current = source;
+  }
+
+  return current.id;
+}
+
+/**
+ * All loaded videos generated from the same original idea as `video`,
+ * oldest first (including `video` itself).
+ */
+export function getRemixVersions(
+  video: VideoRecord,
+  videos: VideoRecord[]
+): VideoRecord[] {
+  const byId = new Map(videos.map((v) => [v.id, v]));
+  const rootId = getRemixRootId(video, byId);
+
+  return videos
+    .filter((v) => getRemixRootId(v, byId) === rootId)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
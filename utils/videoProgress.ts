@@ -0,0 +1,131 @@
+import type { ComponentProps } from "react";
+import type { Ionicons } from "@expo/vector-icons";
+import type { VideoRecord } from "../constants/constants";
+
+export const VIDEO_STAGES = [
+  "scripting",
+  "voiceover",
+  "rendering",
+  "uploading",
+] as const;
+
+export type VideoStage = (typeof VIDEO_STAGES)[number];
+
+export const VIDEO_STAGE_INFO: Record<
+  VideoStage,
+  { label: string; icon: ComponentProps<typeof Ionicons>["name"] }
+> = {
+  scripting: { label: "Script", icon: "document-text-outline" },
+  voiceover: { label: "Voiceover", icon: "mic-outline" },
+  rendering: { label: "Rendering", icon: "film-outline" },
+  uploading: { label: "Uploading", icon: "cloud-upload-outline" },
+};
+
+// Midpoint of the advertised 7-12 minutes, used until the user has history
+export const DEFAULT_GENERATION_MS = 9.5 * 60 * 1000;
+
+// Below this the progress is too coarse to extrapolate from
+const MIN_PROGRESS_FOR_ESTIMATE = 5;
+
+export function isVideoStage(value: unknown): value is VideoStage {
+  return VIDEO_STAGES.includes(value as VideoStage);
+}
+
+/** Index of the video's stage in the pipeline, or -1 when unknown */
+export function stageIndex(stage: string | null | undefined): number {
+  return isVideoStage(stage) ? VIDEO_STAGES.indexOf(stage) : -1;
+}
+
+/** Progress clamped to 0-100, or null when the server hasn't sent any */
+export function clampProgress(progress: number | null | undefined) {
+  return typeof progress === "number"
+    ? Math.min(100, Math.max(0, progress))
+    : null;
+}
+
+/** "4:05" or "1:02:03" */
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/** Median `created_at` → `completed_at` time of completed videos */
+export function typicalGenerationMs(
+  videos: Pick<VideoRecord, "created_at" | "completed_at">[]
+): number | null {
+  const durations = videos
+    .map((video) =>
+      video.completed_at
+        ? Date.parse(video.completed_at) - Date.parse(video.created_at)
+        : NaN
+    )
+    .filter((ms) => Number.isFinite(ms) && ms > 0)
+    .sort((a, b) => a - b);
+
+  if (durations.length === 0) {
+    return null;
+  }
+  const middle = Math.floor(durations.length / 2);
+  return durations.length % 2
+    ? durations[middle]
+    : (durations[middle - 1] + durations[middle]) / 2;
+}
+
+/**
+ * Milliseconds until the video is expected to finish. Blends the typical
+ * total time with an extrapolation of the reported progress once there is
+ * enough of it.
+ */
+export function estimateRemainingMs(
+  video: Pick<VideoRecord, "created_at" | "progress">,
+  typicalMs: number,
+  now: number
+): number {
+  const elapsed = now - Date.parse(video.created_at);
+  const progress = clampProgress(video.progress);
+
+  let totalMs = typicalMs;
+  if (progress !== null && progress >= MIN_PROGRESS_FOR_ESTIMATE) {
+    totalMs = (typicalMs + elapsed / (progress / 100)) / 2;
+  }
+  return Math.max(0, totalMs - elapsed);
+}
+
+/** "About 5 min left", or "Almost done" once the estimate has run out */
+export function formatEta(remainingMs: number): string {
+  if (remainingMs <= 0) {
+    return "Almost done";
+  }
+  const minutes = Math.ceil(remainingMs / 60000);
+  return minutes <= 1 ? "Less than a minute left" : `About ${minutes} min left`;
+}
+
+/**
+ * "starts in about 4 min" style estimate for a queued video, or null
+ * when the server gave no start time.
+ */
+export function formatEstimatedStart(
+  estimatedStartAt: string | null,
+  now: number
+): string | null {
+  const startsAt = estimatedStartAt ? Date.parse(estimatedStartAt) : NaN;
+  if (!Number.isFinite(startsAt)) {
+    return null;
+  }
+  const minutes = Math.ceil((startsAt - now) / 60000);
+  if (minutes <= 1) {
+    return "starting soon";
+  }
+  if (minutes < 60) {
+    return `starts in about ${minutes} min`;
+  }
+  return `starts around ${new Date(startsAt).toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit",
+  })}`;
+}
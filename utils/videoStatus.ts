@@ -0,0 +1,155 @@
+import type { ComponentProps } from "react";
+import type { Ionicons } from "@expo/vector-icons";
+import { Colors } from "../constants/colors";
+
+export const VIDEO_STATUSES = [
+  "queued",
+  "processing",
+  "completed",
+  "failed",
+  "cancelled",
+] as const;
+
+export type VideoStatus = (typeof VIDEO_STATUSES)[number];
+
+export interface VideoStatusInfo {
+  label: string;
+  color: string;
+  icon: ComponentProps<typeof Ionicons>["name"];
+  /** Copy for the video detail screen */
+  title: string;
+  message: string;
+  headerTitle: string;
+  /** Still moving through the render pipeline */
+  active: boolean;
+  canDownload: boolean;
+  canDelete: boolean;
+  /** Only videos that have not started processing can be refunded */
+  canCancel: boolean;
+  canRetry: boolean;
+}
+
+export const VIDEO_STATUS_INFO: Record<VideoStatus, VideoStatusInfo> = {
+  queued: {
+    label: "Queued",
+    color: "#fbbf24", // yellow
+    icon: "time-outline",
+    title: "Video Queued",
+    message:
+      "Your video has been queued due to high demand. It will start processing automatically and take 7-12 minutes to complete once processing begins.",
+    headerTitle: "Video Status",
+    active: true,
+    canDownload: false,
+    canDelete: false,
+    canCancel: true,
+    canRetry: false,
+  },
+  processing: {
+    label: "Processing",
+    color: "#06b6d4", // cyan
+    icon: "hourglass-outline",
+    title: "Processing Video",
+    message: "Processing your video, it usually takes 7-12 minutes...",
+    headerTitle: "Video Status",
+    active: true,
+    canDownload: false,
+    canDelete: false,
+    canCancel: false,
+    canRetry: false,
+  },
+  completed: {
+    label: "Completed",
+    color: "#06b6d4",
+    icon: "checkmark-circle",
+    title: "Video Completed",
+    message:
+      "Your video has been successfully generated! You can download it from the dashboard.",
+    headerTitle: "Video Status",
+    active: false,
+    canDownload: true,
+    canDelete: true,
+    canCancel: false,
+    canRetry: false,
+  },
+  failed: {
+    label: "Failed",
+    color: "#f87171", // red
+    icon: "alert-circle",
+    title: "Video Generation Failed",
+    message:
+      "An error occurred while generating your video. You can retry it with the same prompt and voice.",
+    headerTitle: "Video Error",
+    active: false,
+    canDownload: false,
+    canDelete: true,
+    canCancel: false,
+    canRetry: true,
+  },
+  cancelled: {
+    label: "Cancelled",
+    color: Colors.text.gray[500],
+    icon: "close-circle-outline",
+    title: "Video Cancelled",
+    message:
+      "This video was cancelled before processing started and its price was refunded to your balance.",
+    headerTitle: "Video Status",
+    active: false,
+    canDownload: false,
+    canDelete: true,
+    canCancel: false,
+    canRetry: false,
+  },
+};
+
+// Steps may be skipped when broadcasts are missed, but never undone
+const TRANSITIONS: Record<VideoStatus, VideoStatus[]> = {
+  queued: ["processing", "completed", "failed", "cancelled"],
+  processing: ["completed", "failed"],
+  completed: [],
+  failed: [],
+  cancelled: [],
+};
+
+export function isVideoStatus(value: unknown): value is VideoStatus {
+  return VIDEO_STATUSES.includes(value as VideoStatus);
+}
+
+/**
+ * Whether a video may move from `from` to `to`. Staying in the same
+ * status is allowed so other columns can still update, and a status this
+ * app version doesn't know never blocks an update, in either direction.
+ */
+export function canTransition(from: VideoStatus, to: VideoStatus): boolean {
+  return (
+    from === to ||
+    !isVideoStatus(from) ||
+    !isVideoStatus(to) ||
+    TRANSITIONS[from].includes(to)
+  );
+}
+
+/**
+ * Status info for any status string. Statuses this app version doesn't
+ * know yet get neutral metadata and no actions.
+ */
+export function getVideoStatusInfo(
+  status: string | undefined
+): VideoStatusInfo {
+  if (isVideoStatus(status)) {
+    return VIDEO_STATUS_INFO[status];
+  }
+
+  return {
+    label: status ? status.charAt(0).toUpperCase() + status.slice(1) : "",
+    color: Colors.text.gray[400],
+    icon: "information-circle-outline",
+    title: "Video Status",
+    message: status ? `Video status: ${status}` : "Loading video status...",
+    headerTitle: "Video Status",
+    active: false,
+    canDownload: false,
+    canDelete: false,
+    canCancel: false,
+    canRetry: false,
+  };
+}
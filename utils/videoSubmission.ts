@@ -0,0 +1,154 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+
+import { supabase } from "../lib/supabase";
+import {
+  createVideo,
+  CreateVideoRequest,
+  InvokeOptions,
+  isEdgeFunctionError,
+} from "../lib/edgeFunctions";
+
+const PENDING_ATTEMPT_KEY_PREFIX = "text2reel.pendingCreateVideo";
+
+interface PendingCreateAttempt {
+  idempotency_key: string;
+  /** Serialized request, used to recognise a resubmission of the same video */
+  fingerprint: string;
+  created_at: number;
+}
+
+export interface SubmitVideoResult {
+  videoId: string | null;
+  /** True when the server had already accepted this attempt earlier */
+  duplicate: boolean;
+}
+
+function storageKey(userId: string) {
+  return `${PENDING_ATTEMPT_KEY_PREFIX}:${userId}`;
+}
+
+async function readPendingAttempt(
+  userId: string
+): Promise<PendingCreateAttempt | null> {
+  try {
+    const raw = await AsyncStorage.getItem(storageKey(userId));
+    return raw ? (JSON.parse(raw) as PendingCreateAttempt) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function clearPendingAttempt(userId: string) {
+  await AsyncStorage.removeItem(storageKey(userId)).catch(console.warn);
+}
+
+function fingerprintRequest(
+  request: Omit<CreateVideoRequest, "idempotency_key">
+) {
+  const { prompt, voice, source_video_id, retry_of_video_id, options, script } =
+    request;
+  return JSON.stringify({
+    prompt,
+    voice: voice ?? null,
+    source_video_id: source_video_id ?? null,
+    retry_of_video_id: retry_of_video_id ?? null,
+    options: options ?? null,
+    script: script ?? null,
+  });
+}
+
+/**
+ * Reuses the stored attempt when the user resubmits the same request
+ * (e.g. after a timeout or app restart), otherwise starts a new one.
+ */
+async function getOrCreateAttempt(
+  userId: string,
+  request: Omit<CreateVideoRequest, "idempotency_key">
+): Promise<{ attempt: PendingCreateAttempt; reused: boolean }> {
+  const existing = await readPendingAttempt(userId);
+  const fingerprint = fingerprintRequest(request);
+
+  if (existing && existing.fingerprint === fingerprint) {
+    return { attempt: existing, reused: true };
+  }
+
+  const attempt: PendingCreateAttempt = {
+    idempotency_key: Crypto.randomUUID(),
+    fingerprint,
+    created_at: Date.now(),
+  };
+  await AsyncStorage.setItem(storageKey(userId), JSON.stringify(attempt));
+
+  return { attempt, reused: false };
+}
+
+async function findVideoByIdempotencyKey(
+  userId: string,
+  idempotencyKey: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("videos")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("idempotency_key", idempotencyKey)
+    .maybeSingle();
+
+  if (error) {
+    return null;
+  }
+
+  return data?.id ?? null;
+}
+
+/**
+ * Submits a create-video request tagged with a client-generated
+ * idempotency key. The key is persisted until the request resolves so
+ * a retry after a timeout never charges the user twice.
+ */
+export async function submitVideoRequest(
+  userId: string,
+  request: Omit<CreateVideoRequest, "idempotency_key">,
+  options?: InvokeOptions
+): Promise<SubmitVideoResult> {
+  const { attempt, reused } = await getOrCreateAttempt(userId, request);
+
+  // A previous attempt may have gone through even though we never saw the
+  // response - if so, surface that video instead of submitting again.
+  if (reused) {
+    const existingId = await findVideoByIdempotencyKey(
+      userId,
+      attempt.idempotency_key
+    );
+    if (existingId) {
+      await clearPendingAttempt(userId);
+      return { videoId: existingId, duplicate: true };
+    }
+  }
+
+  try {
+    const result = await createVideo(
+      { ...request, idempotency_key: attempt.idempotency_key },
+      options
+    );
+    await clearPendingAttempt(userId);
+
+    return {
+      videoId: result.video_id ?? null,
+      duplicate: result.duplicate === true,
+    };
+  } catch (err) {
+    // Only forget the key once the server has definitively answered.
+    // Timeouts and dropped connections may still have been accepted.
+    const outcomeUnknown =
+      isEdgeFunctionError(err) &&
+      (err.kind === "timeout" ||
+        err.kind === "network" ||
+        err.kind === "aborted");
+
+    if (!outcomeUnknown) {
+      await clearPendingAttempt(userId);
+    }
+    throw err;
+  }
+}